@@ -4,6 +4,9 @@ pragma solidity ^0.8.25;
 import {Script, console} from "forge-std/Script.sol";
 import {Vm} from "forge-std/Vm.sol";
 import {L2NativeSuperchainERC20} from "../src/L2NativeSuperchainERC20.sol";
+import {IWormholeVerifier} from "../src/zkWormholes/IWormholeVerifier.sol";
+import {MockWormholeVerifier} from "../src/zkWormholes/MockWormholeVerifier.sol";
+import {ZkWormholesERC20} from "../src/zkWormholes/ZkWormholesERC20.sol";
 
 contract SuperchainERC20Deployer is Script {
     string deployConfig;
@@ -35,7 +38,7 @@ contract SuperchainERC20Deployer is Script {
             console.log("Deploying to chain: ", chainToDeployTo);
 
             vm.createSelectFork(chainToDeployTo);
-            (address _deployedAddress, address _ownerAddr) = deployL2NativeSuperchainERC20();
+            (address _deployedAddress, address _ownerAddr) = deployToken();
             deployedAddress = _deployedAddress;
             ownerAddr = _ownerAddr;
         }
@@ -43,6 +46,24 @@ contract SuperchainERC20Deployer is Script {
         outputDeploymentResult(deployedAddress, ownerAddr);
     }
 
+    /// @notice Deploys ZkWormholesERC20 with the verifier of the config, or with the mock verifier when
+    ///         USE_MOCK_WORMHOLE_VERIFIER is set for local development. Deploys L2NativeSuperchainERC20 otherwise.
+    function deployToken() public returns (address addr_, address ownerAddr_) {
+        bool hasVerifier = vm.keyExistsToml(deployConfig, ".zk_wormholes.verifier_address");
+
+        if (vm.envOr("USE_MOCK_WORMHOLE_VERIFIER", false)) {
+            // The mock verifier accepts proofs anyone can compute: never mix it up with a real one
+            require(!hasVerifier, "USE_MOCK_WORMHOLE_VERIFIER is set along with a verifier_address");
+            return deployZkWormholesERC20(deployMockWormholeVerifier());
+        }
+        if (hasVerifier) {
+            return deployZkWormholesERC20(
+                IWormholeVerifier(vm.parseTomlAddress(deployConfig, ".zk_wormholes.verifier_address"))
+            );
+        }
+        return deployL2NativeSuperchainERC20();
+    }
+
     function deployL2NativeSuperchainERC20() public broadcast returns (address addr_, address ownerAddr_) {
         ownerAddr_ = vm.parseTomlAddress(deployConfig, ".token.owner_address");
         string memory name = vm.parseTomlString(deployConfig, ".token.name");
@@ -64,6 +85,50 @@ contract SuperchainERC20Deployer is Script {
         }
     }
 
+    /// @notice Deploys the mock verifier, which accepts proofs computed from the public signals alone.
+    function deployMockWormholeVerifier() public broadcast returns (IWormholeVerifier verifier_) {
+        address preComputedAddress =
+            vm.computeCreate2Address(_implSalt(), keccak256(type(MockWormholeVerifier).creationCode));
+        if (preComputedAddress.code.length > 0) {
+            console.log(
+                "MockWormholeVerifier already deployed at %s", preComputedAddress, "on chain id: ", block.chainid
+            );
+            verifier_ = IWormholeVerifier(preComputedAddress);
+        } else {
+            verifier_ = new MockWormholeVerifier{salt: _implSalt()}();
+            console.log(
+                "Deployed MockWormholeVerifier at address: ", address(verifier_), "on chain id: ", block.chainid
+            );
+        }
+    }
+
+    function deployZkWormholesERC20(IWormholeVerifier verifier_)
+        public
+        broadcast
+        returns (address addr_, address ownerAddr_)
+    {
+        ownerAddr_ = vm.parseTomlAddress(deployConfig, ".token.owner_address");
+        string memory name = vm.parseTomlString(deployConfig, ".token.name");
+        string memory symbol = vm.parseTomlString(deployConfig, ".token.symbol");
+        uint256 decimals = vm.parseTomlUint(deployConfig, ".token.decimals");
+        require(decimals <= type(uint8).max, "decimals exceeds uint8 range");
+        bytes memory initCode = abi.encodePacked(
+            type(ZkWormholesERC20).creationCode, abi.encode(ownerAddr_, name, symbol, uint8(decimals), verifier_)
+        );
+        address preComputedAddress = vm.computeCreate2Address(_implSalt(), keccak256(initCode));
+        if (preComputedAddress.code.length > 0) {
+            console.log(
+                "ZkWormholesERC20 already deployed at %s", preComputedAddress, "on chain id: ", block.chainid
+            );
+            addr_ = preComputedAddress;
+        } else {
+            addr_ = address(
+                new ZkWormholesERC20{salt: _implSalt()}(ownerAddr_, name, symbol, uint8(decimals), verifier_)
+            );
+            console.log("Deployed ZkWormholesERC20 at address: ", addr_, "on chain id: ", block.chainid);
+        }
+    }
+
     function outputDeploymentResult(address deployedAddress, address ownerAddr) public {
         console.log("Outputting deployment result");
 
@@ -0,0 +1,20 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.25;
+
+/// @title IWormholeVerifier
+/// @notice Interface of the Groth16 verifier snarkjs exports for the wormhole circuit.
+interface IWormholeVerifier {
+    /// @notice Verifies a proof of the wormhole circuit.
+    /// @param _pA         Proof element A.
+    /// @param _pB         Proof element B, with the coordinates of each Fq2 element swapped.
+    /// @param _pC         Proof element C.
+    /// @param _pubSignals [receiptFact, token, withdrawAmount, changeCommitment, nullifier, recipient, relayerFee,
+    ///                    relayer]
+    /// @return True if the proof is valid for the public signals.
+    function verifyProof(
+        uint256[2] calldata _pA,
+        uint256[2][2] calldata _pB,
+        uint256[2] calldata _pC,
+        uint256[8] calldata _pubSignals
+    ) external view returns (bool);
+}
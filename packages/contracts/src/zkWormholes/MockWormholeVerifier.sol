@@ -0,0 +1,39 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.25;
+
+// Interfaces
+import {IWormholeVerifier} from "./IWormholeVerifier.sol";
+
+/// @title MockWormholeVerifier
+/// @notice Stand-in for the wormhole circuit verifier that accepts the proofs of the SDK's mock prover,
+///         whose elements are derived from the public signals. It proves nothing: local development
+///         and tests only.
+contract MockWormholeVerifier is IWormholeVerifier {
+    /// @notice Order of the BN254 scalar field.
+    uint256 internal constant SNARK_SCALAR_FIELD =
+        21888242871839275222246405745257275088548364400416034343698204186575808495617;
+
+    /// @notice Domain tag of the mock proof elements, as in the SDK.
+    string internal constant MOCK_PROOF_TAG = "zkw-mock-proof";
+
+    /// @notice Computes one element of the mock proof of some public signals.
+    /// @param _pubSignals Public signals the proof is for.
+    /// @param _index      Position of the element, from pA[0] to pC[1].
+    /// @return sha256(abi.encode(MOCK_PROOF_TAG, _pubSignals, _index)) reduced into the scalar field.
+    function proofElement(uint256[8] calldata _pubSignals, uint8 _index) public pure returns (uint256) {
+        return uint256(sha256(abi.encode(MOCK_PROOF_TAG, _pubSignals, _index))) % SNARK_SCALAR_FIELD;
+    }
+
+    /// @inheritdoc IWormholeVerifier
+    function verifyProof(
+        uint256[2] calldata _pA,
+        uint256[2][2] calldata _pB,
+        uint256[2] calldata _pC,
+        uint256[8] calldata _pubSignals
+    ) external pure returns (bool) {
+        return _pA[0] == proofElement(_pubSignals, 0) && _pA[1] == proofElement(_pubSignals, 1)
+            && _pB[0][0] == proofElement(_pubSignals, 2) && _pB[0][1] == proofElement(_pubSignals, 3)
+            && _pB[1][0] == proofElement(_pubSignals, 4) && _pB[1][1] == proofElement(_pubSignals, 5)
+            && _pC[0] == proofElement(_pubSignals, 6) && _pC[1] == proofElement(_pubSignals, 7);
+    }
+}
@@ -0,0 +1,92 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.25;
+
+// Contracts
+import {L2NativeSuperchainERC20} from "../L2NativeSuperchainERC20.sol";
+
+// Interfaces
+import {IWormholeVerifier} from "./IWormholeVerifier.sol";
+
+/// @title ZkWormholesERC20
+/// @notice L2NativeSuperchainERC20 that mints burns proven with the wormhole circuit. A burn is a plain
+///         transfer to an unspendable address on any chain, its proof mints the amount here without
+///         linking the two.
+contract ZkWormholesERC20 is L2NativeSuperchainERC20 {
+    /// @notice Verifier of the wormhole circuit.
+    IWormholeVerifier public immutable verifier;
+
+    /// @notice Nullifiers of the burns already minted.
+    mapping(uint256 => bool) public nullifiers;
+
+    /// @notice Emitted when a burn is minted.
+    /// @param to        Recipient of the mint.
+    /// @param amount    Amount of the burn, relayer fee included.
+    /// @param nullifier Nullifier of the burn.
+    event PrivateMint(address indexed to, uint256 amount, uint256 nullifier);
+
+    /// @notice Thrown when the burn was already minted.
+    error NullifierAlreadyUsed();
+
+    /// @notice Thrown when the proof is for a burn of another token.
+    error InvalidToken();
+
+    /// @notice Thrown when the recipient is not a non-zero address.
+    error InvalidRecipient();
+
+    /// @notice Thrown when the relayer fee exceeds the amount of the burn.
+    error RelayerFeeExceedsAmount();
+
+    /// @notice Thrown when the caller is not the relayer bound in the proof, or a fee has no relayer.
+    error InvalidRelayer();
+
+    /// @notice Thrown when the verifier rejects the proof.
+    error InvalidProof();
+
+    constructor(
+        address owner_,
+        string memory name_,
+        string memory symbol_,
+        uint8 decimals_,
+        IWormholeVerifier verifier_
+    ) L2NativeSuperchainERC20(owner_, name_, symbol_, decimals_) {
+        verifier = verifier_;
+    }
+
+    /// @notice Mints a proven burn to its recipient, and its relayer fee to the relayer bound in the proof.
+    ///         Only that relayer can submit the mint, so that its pending transaction cannot be front-run
+    ///         for the fee. A proof with no relayer can be submitted by anyone, and pays no fee.
+    /// @dev The receipt fact is not checked against the block hashes of the source chains yet.
+    /// @param _pA         Proof element A.
+    /// @param _pB         Proof element B.
+    /// @param _pC         Proof element C.
+    /// @param _pubSignals [receiptFact, token, withdrawAmount, changeCommitment, nullifier, recipient, relayerFee,
+    ///                    relayer]
+    function privateMint(
+        uint256[2] calldata _pA,
+        uint256[2][2] calldata _pB,
+        uint256[2] calldata _pC,
+        uint256[8] calldata _pubSignals
+    ) external {
+        uint256 amount = _pubSignals[2];
+        uint256 nullifier = _pubSignals[4];
+        uint256 recipient = _pubSignals[5];
+        uint256 relayerFee = _pubSignals[6];
+        uint256 relayer = _pubSignals[7];
+
+        if (nullifiers[nullifier]) revert NullifierAlreadyUsed();
+        if (_pubSignals[1] != uint256(uint160(address(this)))) revert InvalidToken();
+        if (recipient == 0 || recipient > type(uint160).max) revert InvalidRecipient();
+        if (relayerFee > amount) revert RelayerFeeExceedsAmount();
+        if (relayer == 0 && relayerFee > 0) revert InvalidRelayer();
+        if (relayer != 0 && relayer != uint256(uint160(msg.sender))) revert InvalidRelayer();
+        if (!verifier.verifyProof(_pA, _pB, _pC, _pubSignals)) revert InvalidProof();
+
+        nullifiers[nullifier] = true;
+
+        address to = address(uint160(recipient));
+        _mint(to, amount - relayerFee);
+        if (relayerFee > 0) _mint(address(uint160(relayer)), relayerFee);
+
+        emit PrivateMint(to, amount, nullifier);
+    }
+}
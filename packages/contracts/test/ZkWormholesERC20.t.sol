@@ -0,0 +1,175 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.25;
+
+// Testing utilities
+import {Test} from "forge-std/Test.sol";
+
+// Libraries
+import {IERC20} from "@openzeppelin/contracts/interfaces/IERC20.sol";
+
+// Target contract
+import {MockWormholeVerifier} from "src/zkWormholes/MockWormholeVerifier.sol";
+import {ZkWormholesERC20} from "src/zkWormholes/ZkWormholesERC20.sol";
+
+/// @title ZkWormholesERC20Test
+/// @notice Contract for testing the privateMint function of the ZkWormholesERC20 contract.
+contract ZkWormholesERC20Test is Test {
+    address owner;
+    address alice;
+    address relayer;
+
+    MockWormholeVerifier public verifier;
+    ZkWormholesERC20 public zkWormholesERC20;
+
+    /// @notice Sets up the test suite.
+    function setUp() public {
+        owner = makeAddr("owner");
+        alice = makeAddr("alice");
+        relayer = makeAddr("relayer");
+        verifier = new MockWormholeVerifier();
+        zkWormholesERC20 = new ZkWormholesERC20(owner, "Test", "TEST", 18, verifier);
+    }
+
+    /// @notice Helper function to build the public signals of a burn of this token, bound to the relayer.
+    function _signals(uint256 _amount, uint256 _nullifier, address _to, uint256 _fee)
+        internal
+        view
+        returns (uint256[8] memory signals_)
+    {
+        uint256 token = uint256(uint160(address(zkWormholesERC20)));
+        signals_ = [uint256(1), token, _amount, 0, _nullifier, uint256(uint160(_to)), _fee, uint256(uint160(relayer))];
+    }
+
+    /// @notice Helper function to build the mock proof of some public signals.
+    function _proof(uint256[8] memory _pubSignals)
+        internal
+        view
+        returns (uint256[2] memory pA_, uint256[2][2] memory pB_, uint256[2] memory pC_)
+    {
+        pA_ = [verifier.proofElement(_pubSignals, 0), verifier.proofElement(_pubSignals, 1)];
+        pB_ = [
+            [verifier.proofElement(_pubSignals, 2), verifier.proofElement(_pubSignals, 3)],
+            [verifier.proofElement(_pubSignals, 4), verifier.proofElement(_pubSignals, 5)]
+        ];
+        pC_ = [verifier.proofElement(_pubSignals, 6), verifier.proofElement(_pubSignals, 7)];
+    }
+
+    /// @notice Helper function to prove and mint some public signals from the relayer.
+    function _privateMint(uint256[8] memory _pubSignals) internal {
+        (uint256[2] memory pA, uint256[2][2] memory pB, uint256[2] memory pC) = _proof(_pubSignals);
+        vm.prank(relayer);
+        zkWormholesERC20.privateMint(pA, pB, pC, _pubSignals);
+    }
+
+    /// @notice Helper function to prove some public signals and expect their mint to revert.
+    /// @dev The proof is built first, so that the revert is expected from the mint and not the verifier.
+    function _privateMintReverts(uint256[8] memory _pubSignals, bytes4 _selector) internal {
+        (uint256[2] memory pA, uint256[2][2] memory pB, uint256[2] memory pC) = _proof(_pubSignals);
+        vm.expectRevert(_selector);
+        vm.prank(relayer);
+        zkWormholesERC20.privateMint(pA, pB, pC, _pubSignals);
+    }
+
+    /// @notice Tests that a proven burn mints to the recipient, and the relayer fee to the relayer.
+    function testFuzz_privateMint_succeeds(uint256 _amount, uint256 _fee, uint256 _nullifier) public {
+        _fee = bound(_fee, 0, _amount);
+        uint256[8] memory signals = _signals(_amount, _nullifier, alice, _fee);
+        (uint256[2] memory pA, uint256[2][2] memory pB, uint256[2] memory pC) = _proof(signals);
+
+        vm.expectEmit(true, true, true, true);
+        emit ZkWormholesERC20.PrivateMint(alice, _amount, _nullifier);
+
+        vm.prank(relayer);
+        zkWormholesERC20.privateMint(pA, pB, pC, signals);
+
+        assertEq(zkWormholesERC20.totalSupply(), _amount);
+        assertEq(zkWormholesERC20.balanceOf(alice), _amount - _fee);
+        assertEq(zkWormholesERC20.balanceOf(relayer), _fee);
+        assertTrue(zkWormholesERC20.nullifiers(_nullifier));
+    }
+
+    /// @notice Tests that a burn cannot be minted twice.
+    function test_privateMint_sameNullifier_reverts() public {
+        _privateMint(_signals(1 ether, 42, alice, 0));
+
+        _privateMintReverts(_signals(1 ether, 42, alice, 0), ZkWormholesERC20.NullifierAlreadyUsed.selector);
+    }
+
+    /// @notice Tests that privateMint reverts when the proof is not for the public signals.
+    function test_privateMint_invalidProof_reverts() public {
+        uint256[8] memory signals = _signals(1 ether, 42, alice, 0);
+        (uint256[2] memory pA, uint256[2][2] memory pB, uint256[2] memory pC) = _proof(signals);
+        // Proven for 1 ether, claimed for 2
+        signals[2] = 2 ether;
+
+        vm.expectRevert(ZkWormholesERC20.InvalidProof.selector);
+        vm.prank(relayer);
+        zkWormholesERC20.privateMint(pA, pB, pC, signals);
+    }
+
+    /// @notice Tests that privateMint reverts for the burns of another token.
+    function test_privateMint_invalidToken_reverts() public {
+        uint256[8] memory signals = _signals(1 ether, 42, alice, 0);
+        signals[1] = uint256(uint160(makeAddr("otherToken")));
+
+        _privateMintReverts(signals, ZkWormholesERC20.InvalidToken.selector);
+    }
+
+    /// @notice Tests that privateMint reverts when the recipient is zero or not an address.
+    function test_privateMint_invalidRecipient_reverts() public {
+        _privateMintReverts(_signals(1 ether, 42, address(0), 0), ZkWormholesERC20.InvalidRecipient.selector);
+
+        uint256[8] memory signals = _signals(1 ether, 42, alice, 0);
+        signals[5] = uint256(type(uint160).max) + 1;
+
+        _privateMintReverts(signals, ZkWormholesERC20.InvalidRecipient.selector);
+    }
+
+    /// @notice Tests that privateMint reverts when the relayer fee exceeds the amount of the burn.
+    function test_privateMint_feeExceedsAmount_reverts() public {
+        _privateMintReverts(
+            _signals(1 ether, 42, alice, 1 ether + 1), ZkWormholesERC20.RelayerFeeExceedsAmount.selector
+        );
+    }
+
+    /// @notice Tests that only the relayer bound in the proof can submit it, so that its fee cannot be front-run.
+    function test_privateMint_otherCaller_reverts() public {
+        uint256[8] memory signals = _signals(1 ether, 42, alice, 0.01 ether);
+        (uint256[2] memory pA, uint256[2][2] memory pB, uint256[2] memory pC) = _proof(signals);
+
+        vm.expectRevert(ZkWormholesERC20.InvalidRelayer.selector);
+        vm.prank(makeAddr("frontRunner"));
+        zkWormholesERC20.privateMint(pA, pB, pC, signals);
+    }
+
+    /// @notice Tests that a proof without relayer can be submitted by anyone, and pays no fee.
+    function test_privateMint_noRelayer_succeeds() public {
+        uint256[8] memory signals = _signals(1 ether, 42, alice, 0);
+        signals[7] = 0;
+        (uint256[2] memory pA, uint256[2][2] memory pB, uint256[2] memory pC) = _proof(signals);
+
+        vm.prank(alice);
+        zkWormholesERC20.privateMint(pA, pB, pC, signals);
+
+        assertEq(zkWormholesERC20.balanceOf(alice), 1 ether);
+    }
+
+    /// @notice Tests that privateMint reverts when a relayer fee has no relayer to pay.
+    function test_privateMint_feeWithoutRelayer_reverts() public {
+        uint256[8] memory signals = _signals(1 ether, 42, alice, 0.01 ether);
+        signals[7] = 0;
+
+        _privateMintReverts(signals, ZkWormholesERC20.InvalidRelayer.selector);
+    }
+
+    /// @notice Tests that the minted tokens are plain tokens of the recipient.
+    function test_privateMint_transfer_succeeds() public {
+        _privateMint(_signals(1 ether, 42, alice, 0));
+
+        vm.expectEmit(true, true, true, true);
+        emit IERC20.Transfer(alice, relayer, 1 ether);
+
+        vm.prank(alice);
+        assertTrue(zkWormholesERC20.transfer(relayer, 1 ether));
+    }
+}
@@ -15,4 +15,7 @@ const zAddressWithDefault = (defaultAddress: Address) =>
 export const envVars = parseEnv(import.meta.env, {
   VITE_TOKEN_CONTRACT_ADDRESS: zAddressWithDefault(deployment.deployedAddress),
   VITE_TOKEN_MINTER_ADDRESS: zAddressWithDefault(deployment.ownerAddress),
+  VITE_PROVER: z.enum(['mock', 'groth16']).default('mock'),
+  VITE_PROVER_WASM_PATH: z.string().optional(),
+  VITE_PROVER_ZKEY_PATH: z.string().optional(),
 })
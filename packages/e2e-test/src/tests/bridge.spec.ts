@@ -2,7 +2,7 @@ import { parseEther, parseUnits } from 'viem'
 import { beforeAll, describe, expect, it } from 'vitest'
 import { testClientByChain, testClients } from '@/utils/clients'
 import { envVars } from '@/envVars'
-import { L2NativeSuperchainERC20Abi } from '@/abi/L2NativeSuperchainERC20Abi'
+import { L2NativeSuperchainERC20Abi } from '@superchainerc20-starter/wormhole-sdk'
 import {
   generatePrivateKey,
   privateKeyToAccount,
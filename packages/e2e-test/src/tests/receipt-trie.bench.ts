@@ -0,0 +1,77 @@
+import { bench, describe } from 'vitest'
+import { Hex, numberToHex, padHex } from 'viem'
+import {
+  buildReceiptTrie,
+  buildReceiptTrieMultiproof,
+  buildReceiptTrieProofs,
+  RawRpcReceipt,
+} from '@superchainerc20-starter/wormhole-sdk'
+
+// Synthetic block where every other transaction emits an ERC20 Transfer
+const createReceipts = (count: number): RawRpcReceipt[] =>
+  Array.from({ length: count }, (_, i) => ({
+    status: '0x1',
+    cumulativeGasUsed: numberToHex(50_000 * (i + 1)),
+    logsBloom: padHex('0x', { size: 256 }),
+    logs:
+      i % 2 === 0
+        ? [
+            {
+              address: padHex(numberToHex(i), { size: 20 }),
+              topics: [
+                '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef',
+                padHex(numberToHex(i), { size: 32 }),
+                padHex('0xdead', { size: 32 }),
+              ],
+              data: padHex(numberToHex(i + 1), { size: 32 }),
+            },
+          ]
+        : [],
+    type: i === 0 ? '0x7e' : '0x2',
+    transactionIndex: numberToHex(i),
+    ...(i === 0 && { depositNonce: '0x1', depositReceiptVersion: '0x1' }),
+  }))
+
+const TARGET_COUNT = 10
+
+// Rebuilding large tries is slow, so keep the runs short and skip warmup
+const BENCH_OPTIONS = {
+  iterations: 2,
+  time: 0,
+  warmupIterations: 0,
+  warmupTime: 0,
+}
+
+describe.each([1_000, 3_000])('%i receipts', (receiptCount) => {
+  const receipts = createReceipts(receiptCount)
+  const step = Math.floor(receiptCount / TARGET_COUNT)
+  const targetTxIndexes: Hex[] = Array.from({ length: TARGET_COUNT }, (_, i) =>
+    numberToHex(i * step),
+  )
+
+  bench(
+    'buildReceiptTrie per transaction',
+    async () => {
+      for (const targetTxIndex of targetTxIndexes) {
+        await buildReceiptTrie({ receipts, targetTxIndex })
+      }
+    },
+    BENCH_OPTIONS,
+  )
+
+  bench(
+    'buildReceiptTrieProofs',
+    async () => {
+      await buildReceiptTrieProofs({ receipts, targetTxIndexes })
+    },
+    BENCH_OPTIONS,
+  )
+
+  bench(
+    'buildReceiptTrieMultiproof',
+    async () => {
+      await buildReceiptTrieMultiproof({ receipts, targetTxIndexes })
+    },
+    BENCH_OPTIONS,
+  )
+})
@@ -14,15 +14,34 @@ import {
 } from 'viem/accounts'
 import { beforeAll, describe, it, expect } from 'vitest'
 import { envVars } from '@/envVars'
-import { L2NativeSuperchainERC20Abi } from '@/abi/L2NativeSuperchainERC20Abi'
-import { buildReceiptTrie, RawRpcReceipt } from '@/utils/receiptTrieProof'
+import { prover } from '@/utils/prover'
+import {
+  buildBlockHeaderProof,
+  buildReceiptTrie,
+  deriveBurnAddress,
+  diagnoseReceiptsRoot,
+  fetchWormholeWitness,
+  findTransferLogs,
+  formatReceiptProofWitness,
+  formatReceiptsRootDiagnostics,
+  generateBurnSecret,
+  getBlockReceiptsRaw,
+  isValidBurnAddress,
+  L2NativeSuperchainERC20Abi,
+  RawRpcBlockHeader,
+  RawRpcReceipt,
+  toPublicSignalsArray,
+  verifyBlockHeaderProof,
+  verifyReceiptProof,
+  WormholeNote,
+} from '@superchainerc20-starter/wormhole-sdk'
 
 const testPrivateKey = generatePrivateKey()
 const testAccount = privateKeyToAccount(testPrivateKey)
 
-// TODO: transform this into a unspendable / burn address
-const recipientPrivateKey = generatePrivateKey()
-const recipientAccount = privateKeyToAccount(recipientPrivateKey)
+// Unspendable recipient, only the holder of the secret can prove the burn
+const burnSecret = generateBurnSecret()
+const burnAddress = deriveBurnAddress(burnSecret)
 
 // contract deployer - used with impersonation in tests
 const minterAccount = toAccount(envVars.VITE_TOKEN_MINTER_ADDRESS)
@@ -79,10 +98,10 @@ describe('receipt trie', async () => {
 
     const block = await testClientByChain.supersimL2A.getBlock()
 
-    const nreceipts = await testClientByChain.supersimL2A.request({
-      method: 'eth_getBlockReceipts' as any, // getBlockReceipts is not yet typed in viem but available in most RPCs
-      params: [numberToHex(block.number)],
-    })
+    const nreceipts = await getBlockReceiptsRaw(
+      testClientByChain.supersimL2A,
+      block.number,
+    )
 
     const { rootHash } = await buildReceiptTrie({
       receipts: nreceipts,
@@ -102,7 +121,7 @@ describe('receipt trie', async () => {
       account: testAccount,
       ...l2NativeSuperchainERC20Contract,
       functionName: 'transfer',
-      args: [recipientAccount.address, amount],
+      args: [burnAddress, amount],
     })
 
     receipt = await testClientByChain.supersimL2A.waitForTransactionReceipt({
@@ -134,23 +153,27 @@ describe('receipt trie', async () => {
 
     expect(decodedLog.eventName).toBe('Transfer')
     expect(args.from).toBe(testAccount.address)
-    expect(args.to).toBe(recipientAccount.address)
+    expect(args.to).toBe(burnAddress)
     expect(args.amount).toBe(amount)
 
-    // Verify recipient received tokens
-    const recipientBalance = await testClientByChain.supersimL2A.readContract({
+    expect(isValidBurnAddress({ address: args.to, secret: burnSecret })).toBe(
+      true,
+    )
+
+    // Verify the burn address received tokens
+    const burnBalance = await testClientByChain.supersimL2A.readContract({
       ...l2NativeSuperchainERC20Contract,
       functionName: 'balanceOf',
-      args: [recipientAccount.address],
+      args: [burnAddress],
     })
-    expect(recipientBalance).toBe(amount)
+    expect(burnBalance).toBe(amount)
   })
 
   it('should download block receipts and receipt-trie root hash for a given block', async () => {
-    receipts = await testClientByChain.supersimL2A.request({
-      method: 'eth_getBlockReceipts' as any, // getBlockReceipts is not yet typed in viem but available in most RPCs
-      params: [numberToHex(receipt.blockNumber)],
-    })
+    receipts = await getBlockReceiptsRaw(
+      testClientByChain.supersimL2A,
+      receipt.blockNumber,
+    )
 
     const block = await testClientByChain.supersimL2A.getBlock({
       blockNumber: receipt.blockNumber,
@@ -168,6 +191,109 @@ describe('receipt trie', async () => {
       targetTxIndex: numberToHex(receipt.transactionIndex),
     })
 
-    expect(rootHash).toBe(receiptsRootHash)
+    // On a mismatch, point at the receipt field that most likely caused it
+    const diagnostics = await diagnoseReceiptsRoot({
+      receipts,
+      expectedRoot: receiptsRootHash,
+    })
+
+    expect(rootHash, formatReceiptsRootDiagnostics(diagnostics)).toBe(
+      receiptsRootHash,
+    )
+    expect(diagnostics.issues).toEqual([])
+  })
+
+  it('should verify the receipt proof against the block receipts root', async () => {
+    const proof = await buildReceiptTrie({
+      receipts,
+      targetTxIndex: numberToHex(receipt.transactionIndex),
+    })
+
+    const { receipt: provenReceipt } = verifyReceiptProof({
+      ...proof,
+      rootHash: receiptsRootHash,
+    })
+
+    expect(provenReceipt.status).toBe('success')
+
+    const transferLogs = findTransferLogs(provenReceipt, {
+      token: envVars.VITE_TOKEN_CONTRACT_ADDRESS,
+      to: burnAddress,
+    })
+    expect(transferLogs).toHaveLength(1)
+    expect(transferLogs[0].args.from).toBe(testAccount.address)
+
+    // Dropping the leaf must invalidate the proof
+    expect(() =>
+      verifyReceiptProof({
+        ...proof,
+        proofNodes: proof.proofNodes.slice(0, -1),
+      }),
+    ).toThrow(/truncated/)
+  })
+
+  it('should link the receipts root to the block hash through the header', async () => {
+    const rawBlock = (await testClientByChain.supersimL2A.request({
+      method: 'eth_getBlockByNumber',
+      params: [numberToHex(receipt.blockNumber), false],
+    })) as RawRpcBlockHeader
+
+    const headerProof = buildBlockHeaderProof(rawBlock)
+
+    expect(headerProof.blockHash).toBe(receipt.blockHash)
+    expect(headerProof.receiptsRoot).toBe(receiptsRootHash)
+    expect(
+      verifyBlockHeaderProof({
+        ...headerProof,
+        rootHash: receiptsRootHash,
+      }),
+    ).toBe(true)
+  })
+
+  it('should format the receipt proof as fixed-size circuit inputs', async () => {
+    const proof = await buildReceiptTrie({
+      receipts,
+      targetTxIndex: numberToHex(receipt.transactionIndex),
+    })
+
+    const witness = formatReceiptProofWitness(proof)
+
+    expect(witness.depth).toBe(proof.proofNodes.length)
+    expect(witness.nodes).toHaveLength(8)
+    witness.nodes.forEach((node) => expect(node).toHaveLength(1024))
+
+    // Nodes larger than the circuit allows must be rejected
+    expect(() =>
+      formatReceiptProofWitness({ ...proof, bounds: { maxNodeLength: 32 } }),
+    ).toThrow(/exceeds maxNodeLength/)
+  })
+
+  it('should prove the burn with the configured prover', async () => {
+    const note: WormholeNote = {
+      secret: burnSecret,
+      amount: parseUnits('10', decimals),
+      token: envVars.VITE_TOKEN_CONTRACT_ADDRESS,
+      sourceChainId: testClientByChain.supersimL2A.chain.id,
+      blockNumber: receipt.blockNumber,
+      transactionIndex: receipt.transactionIndex,
+      logIndex: 0,
+    }
+
+    const witness = await fetchWormholeWitness({
+      client: testClientByChain.supersimL2A,
+      note,
+      recipient: testAccount.address,
+    })
+    const proof = await prover.generateProof(witness)
+
+    expect(proof.publicSignals[4]).toBe(BigInt(witness.nullifier))
+    expect(await prover.verify(proof)).toBe(true)
+
+    // The proof must not verify for another amount
+    const publicSignals = toPublicSignalsArray({
+      ...witness.publicSignals,
+      withdrawAmount: witness.publicSignals.withdrawAmount + 1n,
+    })
+    expect(await prover.verify({ ...proof, publicSignals })).toBe(false)
   })
 })
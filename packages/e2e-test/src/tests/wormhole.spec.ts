@@ -0,0 +1,359 @@
+import { AddressInfo } from 'node:net'
+import { testClientByChain, testClients } from '@/utils/clients'
+import {
+  Chain,
+  createWalletClient,
+  http,
+  numberToHex,
+  parseEther,
+  parseUnits,
+  publicActions,
+  TransactionReceipt,
+} from 'viem'
+import {
+  generatePrivateKey,
+  privateKeyToAccount,
+  toAccount,
+} from 'viem/accounts'
+import { beforeAll, describe, it, expect } from 'vitest'
+import { envVars } from '@/envVars'
+import {
+  buildBlockHeaderProof,
+  buildReceiptTrie,
+  createMockProver,
+  deriveBurnAddress,
+  fetchBurnBalanceWitness,
+  fetchWormholeBlockData,
+  fetchWormholeWitness,
+  generateBurnSecret,
+  L2NativeSuperchainERC20Abi,
+  verifyBlockHeaderProof,
+  verifyReceiptProof,
+  WormholeNote,
+  WormholeProof,
+  ZkWormholesERC20Abi,
+} from '@superchainerc20-starter/wormhole-sdk'
+import {
+  createRelayer,
+  createRelayerServer,
+  relayJobToJson,
+  relayRequestToJson,
+} from '@superchainerc20-starter/relayer'
+
+const testAccount = privateKeyToAccount(generatePrivateKey())
+// Fresh accounts, so that nothing links them to the test account
+const recipientAccount = privateKeyToAccount(generatePrivateKey())
+const relayerAccount = privateKeyToAccount(generatePrivateKey())
+// Recipient of the mint sent through the relayer service, and that service's key
+const relayedRecipientAccount = privateKeyToAccount(generatePrivateKey())
+const relayerServiceAccount = privateKeyToAccount(generatePrivateKey())
+
+const burnSecret = generateBurnSecret()
+const burnAddress = deriveBurnAddress(burnSecret)
+
+// contract deployer - used with impersonation in tests
+const minterAccount = toAccount(envVars.VITE_TOKEN_MINTER_ADDRESS)
+
+// The deployed token verifies with MockWormholeVerifier, whatever VITE_PROVER
+// is set to
+const prover = createMockProver()
+
+// supersimL2A 901
+// supersimL2B 902
+const tokenContract = {
+  address: envVars.VITE_TOKEN_CONTRACT_ADDRESS,
+  abi: L2NativeSuperchainERC20Abi,
+}
+const zkWormholesContract = {
+  address: envVars.VITE_TOKEN_CONTRACT_ADDRESS,
+  abi: ZkWormholesERC20Abi,
+}
+
+describe('wormhole', async () => {
+  const decimals = await testClientByChain.supersimL2A.readContract({
+    ...tokenContract,
+    functionName: 'decimals',
+  })
+  const amount = parseUnits('10', decimals)
+  const relayerFee = parseUnits('0.01', decimals)
+
+  let receipt: TransactionReceipt
+  let note: WormholeNote
+  let proof: WormholeProof
+
+  beforeAll(async () => {
+    await Promise.all(
+      testClients.map(async (client) => {
+        await client.setBalance({
+          address: testAccount.address,
+          value: parseEther('1000'),
+        })
+        await client.setBalance({
+          address: relayerAccount.address,
+          value: parseEther('1000'),
+        })
+        await client.setBalance({
+          address: relayerServiceAccount.address,
+          value: parseEther('1000'),
+        })
+        await client.setBalance({
+          address: minterAccount.address,
+          value: parseEther('1000'),
+        })
+      }),
+    )
+
+    await testClientByChain.supersimL2A.impersonateAccount({
+      address: envVars.VITE_TOKEN_MINTER_ADDRESS,
+    })
+    const hash = await testClientByChain.supersimL2A.writeContract({
+      account: minterAccount,
+      ...tokenContract,
+      functionName: 'mintTo',
+      args: [testAccount.address, parseUnits('1000', decimals)],
+    })
+    await testClientByChain.supersimL2A.waitForTransactionReceipt({ hash })
+  })
+
+  it('should burn on supersimL2A by transferring to a derived burn address', async () => {
+    const hash = await testClientByChain.supersimL2A.writeContract({
+      account: testAccount,
+      ...tokenContract,
+      functionName: 'transfer',
+      args: [burnAddress, amount],
+    })
+    receipt = await testClientByChain.supersimL2A.waitForTransactionReceipt({
+      hash,
+    })
+    expect(receipt.status).toBe('success')
+
+    note = {
+      secret: burnSecret,
+      amount,
+      token: envVars.VITE_TOKEN_CONTRACT_ADDRESS,
+      sourceChainId: testClientByChain.supersimL2A.chain.id,
+      blockNumber: receipt.blockNumber,
+      transactionIndex: receipt.transactionIndex,
+      logIndex: 0,
+    }
+
+    expect(
+      await testClientByChain.supersimL2A.readContract({
+        ...tokenContract,
+        functionName: 'balanceOf',
+        args: [burnAddress],
+      }),
+    ).toBe(amount)
+  })
+
+  it('should prove the burn receipt up to the block hash', async () => {
+    const { block, receipts } = await fetchWormholeBlockData({
+      client: testClientByChain.supersimL2A,
+      note,
+    })
+
+    const receiptProof = await buildReceiptTrie({
+      receipts,
+      targetTxIndex: numberToHex(receipt.transactionIndex),
+    })
+    const { receipt: provenReceipt } = verifyReceiptProof({
+      ...receiptProof,
+      rootHash: block.receiptsRoot,
+    })
+    expect(provenReceipt.status).toBe('success')
+
+    const headerProof = buildBlockHeaderProof(block)
+    expect(headerProof.blockHash).toBe(receipt.blockHash)
+    expect(
+      verifyBlockHeaderProof({ ...headerProof, rootHash: block.receiptsRoot }),
+    ).toBe(true)
+  })
+
+  it('should prove the balance of the burn address up to the block hash', async () => {
+    const witness = await fetchBurnBalanceWitness({
+      client: testClientByChain.supersimL2A,
+      token: envVars.VITE_TOKEN_CONTRACT_ADDRESS,
+      owner: burnAddress,
+      blockNumber: receipt.blockNumber,
+    })
+    expect(witness.blockHash).toBe(receipt.blockHash)
+    expect(witness.balance).toBe(amount)
+  })
+
+  it('should generate a proof of the burn with the mock prover', async () => {
+    const witness = await fetchWormholeWitness({
+      client: testClientByChain.supersimL2A,
+      note,
+      recipient: recipientAccount.address,
+      relayerFee,
+      relayer: relayerAccount.address,
+    })
+    expect(witness.blockHash).toBe(receipt.blockHash)
+
+    proof = await prover.generateProof(witness)
+    expect(await prover.verify(proof)).toBe(true)
+  })
+
+  it('should revert the mint when another account than the relayer submits it', async () => {
+    await expect(
+      testClientByChain.supersimL2B.simulateContract({
+        account: testAccount,
+        ...zkWormholesContract,
+        functionName: 'privateMint',
+        args: [
+          proof.proof.pA,
+          proof.proof.pB,
+          proof.proof.pC,
+          proof.publicSignals,
+        ],
+      }),
+    ).rejects.toThrow(/InvalidRelayer/)
+  })
+
+  it('should mint the burn on supersimL2B, minus the relayer fee', async () => {
+    const hash = await testClientByChain.supersimL2B.writeContract({
+      account: relayerAccount,
+      ...zkWormholesContract,
+      functionName: 'privateMint',
+      args: [
+        proof.proof.pA,
+        proof.proof.pB,
+        proof.proof.pC,
+        proof.publicSignals,
+      ],
+    })
+    const mintReceipt =
+      await testClientByChain.supersimL2B.waitForTransactionReceipt({ hash })
+    expect(mintReceipt.status).toBe('success')
+
+    const balanceOf = (address: `0x${string}`) =>
+      testClientByChain.supersimL2B.readContract({
+        ...tokenContract,
+        functionName: 'balanceOf',
+        args: [address],
+      })
+    expect(await balanceOf(recipientAccount.address)).toBe(amount - relayerFee)
+    expect(await balanceOf(relayerAccount.address)).toBe(relayerFee)
+
+    expect(
+      await testClientByChain.supersimL2B.readContract({
+        ...zkWormholesContract,
+        functionName: 'nullifiers',
+        args: [proof.publicSignals[4]],
+      }),
+    ).toBe(true)
+  })
+
+  it('should revert a second mint with the same nullifier', async () => {
+    await expect(
+      testClientByChain.supersimL2B.simulateContract({
+        account: relayerAccount,
+        ...zkWormholesContract,
+        functionName: 'privateMint',
+        args: [
+          proof.proof.pA,
+          proof.proof.pB,
+          proof.proof.pC,
+          proof.publicSignals,
+        ],
+      }),
+    ).rejects.toThrow(/NullifierAlreadyUsed/)
+  })
+
+  it('should mint a burn through the relayer service, which gets the fee', async () => {
+    const secret = generateBurnSecret()
+    const hash = await testClientByChain.supersimL2A.writeContract({
+      account: testAccount,
+      ...tokenContract,
+      functionName: 'transfer',
+      args: [deriveBurnAddress(secret), amount],
+    })
+    const burnReceipt =
+      await testClientByChain.supersimL2A.waitForTransactionReceipt({ hash })
+    const relayedNote: WormholeNote = {
+      secret,
+      amount,
+      token: envVars.VITE_TOKEN_CONTRACT_ADDRESS,
+      sourceChainId: testClientByChain.supersimL2A.chain.id,
+      blockNumber: burnReceipt.blockNumber,
+      transactionIndex: burnReceipt.transactionIndex,
+      logIndex: 0,
+    }
+    const relayedProof = await prover.generateProof(
+      await fetchWormholeWitness({
+        client: testClientByChain.supersimL2A,
+        note: relayedNote,
+        recipient: relayedRecipientAccount.address,
+        relayerFee,
+        relayer: relayerServiceAccount.address,
+      }),
+    )
+
+    const relayerClient = (chain: Chain) =>
+      createWalletClient({
+        account: relayerServiceAccount,
+        chain,
+        transport: http(),
+        pollingInterval: 1000,
+      }).extend(publicActions)
+    const feePolicy = { feeBps: 10n, minFee: 0n }
+    const relayer = createRelayer({
+      contractAddress: envVars.VITE_TOKEN_CONTRACT_ADDRESS,
+      clients: Object.fromEntries(
+        testClients.map(({ chain }) => [chain.id, relayerClient(chain)]),
+      ),
+      prover,
+      feePolicy,
+    })
+    const server = createRelayerServer(relayer, {
+      address: relayerServiceAccount.address,
+      contractAddress: envVars.VITE_TOKEN_CONTRACT_ADDRESS,
+      chainIds: testClients.map(({ chain }) => chain.id),
+      feePolicy,
+    }).listen(0)
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+    type RelayJobJson = ReturnType<typeof relayJobToJson>
+    try {
+      const response = await fetch(`${url}/relay`, {
+        method: 'POST',
+        body: JSON.stringify(
+          relayRequestToJson({
+            chainId: testClientByChain.supersimL2B.chain.id,
+            ...relayedProof,
+            note: {
+              sourceChainId: relayedNote.sourceChainId,
+              blockNumber: relayedNote.blockNumber,
+            },
+          }),
+        ),
+      })
+      expect(response.status).toBe(202)
+      const { id } = (await response.json()) as RelayJobJson
+
+      let job: RelayJobJson
+      for (;;) {
+        job = (await (await fetch(`${url}/jobs/${id}`)).json()) as RelayJobJson
+        if (job.status === 'mined' || job.status === 'failed') break
+        await new Promise((resolve) => setTimeout(resolve, 500))
+      }
+      expect(job).toMatchObject({
+        status: 'mined',
+        relayerFee: relayerFee.toString(),
+      })
+    } finally {
+      server.close()
+    }
+
+    const balanceOf = (address: `0x${string}`) =>
+      testClientByChain.supersimL2B.readContract({
+        ...tokenContract,
+        functionName: 'balanceOf',
+        args: [address],
+      })
+    expect(await balanceOf(relayedRecipientAccount.address)).toBe(
+      amount - relayerFee,
+    )
+    expect(await balanceOf(relayerServiceAccount.address)).toBe(relayerFee)
+  }, 60_000)
+})
@@ -0,0 +1,19 @@
+import {
+  createProver,
+  ProverConfig,
+} from '@superchainerc20-starter/wormhole-sdk'
+import { envVars } from '@/envVars'
+
+function proverConfig(): ProverConfig {
+  if (envVars.VITE_PROVER === 'mock') return { backend: 'mock' }
+
+  const { VITE_PROVER_WASM_PATH: wasm, VITE_PROVER_ZKEY_PATH: zkey } = envVars
+  if (!wasm || !zkey) {
+    throw new Error(
+      'VITE_PROVER=groth16 needs VITE_PROVER_WASM_PATH and VITE_PROVER_ZKEY_PATH',
+    )
+  }
+  return { backend: 'groth16', wasm, zkey }
+}
+
+export const prover = createProver(proverConfig())
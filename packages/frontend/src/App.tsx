@@ -1,5 +1,11 @@
-import { ArrowLeftRight as BridgeIcon, Droplet, RefreshCw } from 'lucide-react'
+import {
+  ArrowLeftRight as BridgeIcon,
+  Droplet,
+  EyeOff,
+  RefreshCw,
+} from 'lucide-react'
 import { Bridge } from '@/Bridge'
+import { PrivateTransfer } from '@/PrivateTransfer'
 import { Providers } from '@/Providers'
 import { WalletBalance } from '@/components/WalletBalance'
 import { Card } from '@/components/ui/card'
@@ -11,6 +17,7 @@ import { TokenAggregateSupply } from '@/components/TokenAggregateSupply'
 import { useStartIndexer } from '@/hooks/useIndexer'
 import { Button } from '@/components/ui/button'
 import { RecentActivity } from '@/components/RecentActivity'
+import { WormholeNotes } from '@/components/WormholeNotes'
 
 const IndexerStarter = () => {
   const indexer = useStartIndexer()
@@ -65,6 +72,10 @@ function App() {
                         <BridgeIcon className="mr-2 h-4 w-4" />
                         Bridge
                       </TabsTrigger>
+                      <TabsTrigger value="private" className="flex-1">
+                        <EyeOff className="mr-2 h-4 w-4" />
+                        Private Transfer
+                      </TabsTrigger>
                     </TabsList>
                   </div>
 
@@ -72,6 +83,9 @@ function App() {
                     <TabsContent value="bridge">
                       <Bridge />
                     </TabsContent>
+                    <TabsContent value="private">
+                      <PrivateTransfer />
+                    </TabsContent>
                     <TabsContent value="faucet">
                       <Faucet />
                     </TabsContent>
@@ -94,6 +108,7 @@ function App() {
 
             <div className="space-y-6">
               <RecentActivity />
+              <WormholeNotes />
             </div>
           </div>
         </main>
@@ -21,7 +21,7 @@ import {
   useWriteContract,
 } from 'wagmi'
 import { envVars } from '@/envVars'
-import { SuperchainTokenBridgeAbi } from '@/abi/SuperchainTokenBridgeAbi'
+import { SuperchainTokenBridgeAbi } from '@superchainerc20-starter/wormhole-sdk'
 
 export const Bridge = () => {
   const { address } = useAccount()
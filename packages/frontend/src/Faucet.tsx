@@ -15,7 +15,7 @@ import {
   walletActions,
 } from 'viem'
 import { useTokenInfo } from '@/hooks/useTokenInfo'
-import { L2NativeSuperchainERC20Abi } from '@/abi/L2NativeSuperchainERC20Abi'
+import { L2NativeSuperchainERC20Abi } from '@superchainerc20-starter/wormhole-sdk'
 import { envVars } from '@/envVars'
 import { waitForTransactionReceipt } from '@wagmi/core'
 import { useQuery } from '@tanstack/react-query'
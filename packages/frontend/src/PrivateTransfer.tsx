@@ -0,0 +1,519 @@
+import { useEffect, useRef, useState } from 'react'
+import { Hash, isAddress, isAddressEqual, parseUnits } from 'viem'
+import { useAccount } from 'wagmi'
+import { useQueryClient } from '@tanstack/react-query'
+import { AlertCircle, CheckCircle2, Circle, Loader2 } from 'lucide-react'
+import {
+  assertNullifierUnspent,
+  encodeNote,
+  WormholeNote,
+  WormholeProof,
+  WormholeWitness,
+} from '@superchainerc20-starter/wormhole-sdk'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { chains } from '@/config'
+import { useTokenInfo } from '@/hooks/useTokenInfo'
+import {
+  localNullifierRegistry,
+  useNullifierRegistry,
+} from '@/hooks/useNullifierRegistry'
+import { useNoteStore } from '@/notes/notes'
+import {
+  buildBurnWitness,
+  deriveNextBurn,
+  PendingBurn,
+  PRIVATE_TRANSFER_STEPS,
+  PrivateTransferStep,
+  quoteRelayerFee,
+  relayer,
+  sendBurnTransfer,
+  submitPrivateMint,
+  submitRelayedMint,
+  waitForBurn,
+} from '@/zkWormholes/privateTransfer'
+import { ProofWorkerProgress, proveInWorker } from '@/zkWormholes/proofWorker'
+
+type ChainId = (typeof chains)[number]['id']
+
+// Who sends the mint transaction
+type SubmitVia = 'relayer' | 'wallet'
+
+type TransferState = {
+  step: PrivateTransferStep | 'done'
+  isRunning: boolean
+  error?: string
+  burn?: PendingBurn
+  hash?: Hash
+  note?: WormholeNote
+  // fixed with the witness, which binds the recipient, the relayer and its fee
+  submitVia?: SubmitVia
+  witness?: WormholeWitness
+  proof?: WormholeProof
+  mintHash?: Hash
+  // progress of the proof worker in the current step
+  workerProgress?: ProofWorkerProgress
+}
+
+const initialState: TransferState = { step: 'burnAddress', isRunning: false }
+
+// Steps that run in the proof worker and can be cancelled
+const WORKER_STEPS: TransferState['step'][] = [
+  'burnAddress',
+  'receiptProof',
+  'zkProof',
+]
+
+const PROOF_WORKER_STAGE_LABELS: Record<ProofWorkerProgress['stage'], string> =
+  {
+    secrets: 'Deriving burn secrets',
+    receiptTrie: 'Building the receipt trie and witness',
+    proof: 'Proving',
+    verify: 'Verifying the proof',
+  }
+
+/**
+ * Read the input a step needs from the steps before it
+ */
+function required<T>(value: T | undefined, name: string): T {
+  if (value === undefined) {
+    throw new Error(`The transfer has no ${name}, start a new transfer`)
+  }
+  return value
+}
+
+const stepIndex = ({ step }: TransferState) =>
+  step === 'done'
+    ? PRIVATE_TRANSFER_STEPS.length
+    : PRIVATE_TRANSFER_STEPS.findIndex(({ id }) => id === step)
+
+const StepIcon = ({
+  index,
+  state,
+}: {
+  index: number
+  state: TransferState
+}) => {
+  const current = stepIndex(state)
+
+  if (index < current) {
+    return <CheckCircle2 className="h-4 w-4 text-green-500" />
+  }
+  if (index > current) {
+    return <Circle className="h-4 w-4 text-muted-foreground" />
+  }
+  if (state.error) {
+    return <AlertCircle className="h-4 w-4 text-red-500" />
+  }
+  return state.isRunning ? (
+    <Loader2 className="h-4 w-4 animate-spin" />
+  ) : (
+    <Circle className="h-4 w-4" />
+  )
+}
+
+export const PrivateTransfer = () => {
+  const { address } = useAccount()
+  const { symbol, decimals = 18 } = useTokenInfo()
+  const { vault, notes, addNotes } = useNoteStore()
+  const [amount, setAmount] = useState('')
+  const [sourceChainIdString, setSourceChain] = useState(
+    chains[0].id.toString(),
+  )
+  const [targetChainIdString, setTargetChain] = useState(
+    chains[1].id.toString(),
+  )
+  const [recipientInput, setRecipient] = useState('')
+  const [submitViaInput, setSubmitVia] = useState<SubmitVia>(
+    relayer ? 'relayer' : 'wallet',
+  )
+  const [state, setState] = useState<TransferState>(initialState)
+  const abortController = useRef<AbortController>()
+
+  // Stop a running proof when the tab is left
+  useEffect(() => () => abortController.current?.abort(), [])
+
+  const sourceChainId = (state.note?.sourceChainId ??
+    parseInt(sourceChainIdString)) as ChainId
+  const targetChainId = parseInt(targetChainIdString) as ChainId
+  const registry = useNullifierRegistry(targetChainId)
+  const queryClient = useQueryClient()
+
+  const hasStarted = state.step !== 'burnAddress' || !!state.note
+  const amountUnits = state.note?.amount ?? parseUnits(amount || '0', decimals)
+  // Never the connected wallet: it made the burn, minting to it links the two
+  const recipientValue = recipientInput.trim()
+  const isConnectedWallet =
+    !!address &&
+    isAddress(recipientValue) &&
+    isAddressEqual(recipientValue, address)
+  const recipient =
+    isAddress(recipientValue) && !isConnectedWallet ? recipientValue : undefined
+  const submitVia = state.submitVia ?? submitViaInput
+
+  // Each step only runs once its inputs exist, so a failed step is retried
+  // from where it stopped
+  const run = async () => {
+    let current: TransferState = { ...state, isRunning: true, error: undefined }
+    const advance = (patch: Partial<TransferState>) => {
+      current = {
+        ...current,
+        ...(patch.step && { workerProgress: undefined }),
+        ...patch,
+      }
+      setState(current)
+    }
+    setState(current)
+
+    const controller = new AbortController()
+    abortController.current = controller
+    const workerOptions = {
+      signal: controller.signal,
+      onProgress: (workerProgress: ProofWorkerProgress) =>
+        advance({ workerProgress }),
+    }
+
+    try {
+      if (current.step === 'burnAddress') {
+        advance({
+          burn: await deriveNextBurn(workerOptions),
+          step: 'transfer',
+        })
+      }
+      if (current.step === 'transfer') {
+        advance({
+          hash: await sendBurnTransfer(
+            sourceChainId,
+            required(current.burn, 'burn address'),
+            amountUnits,
+          ),
+          step: 'inclusion',
+        })
+      }
+      if (current.step === 'inclusion') {
+        const note = await waitForBurn(
+          sourceChainId,
+          required(current.burn, 'burn address'),
+          amountUnits,
+          required(current.hash, 'transfer hash'),
+        )
+        // Stored before anything else can fail, so the transfer can resume
+        await addNotes([note])
+        advance({ note, step: 'receiptProof' })
+      }
+      if (current.step === 'receiptProof') {
+        const note = required(current.note, 'note')
+        const quote =
+          submitVia === 'relayer'
+            ? await quoteRelayerFee(targetChainId, note)
+            : undefined
+        advance({
+          witness: await buildBurnWitness(
+            note,
+            required(recipient, 'recipient'),
+            quote,
+            workerOptions,
+          ),
+          submitVia,
+          step: 'zkProof',
+        })
+      }
+      if (current.step === 'zkProof') {
+        const witness = required(current.witness, 'witness')
+        await assertNullifierUnspent(registry, witness.nullifier)
+        advance({
+          proof: await proveInWorker(witness, workerOptions),
+          step: 'mint',
+        })
+      }
+      if (current.step === 'mint') {
+        const proof = required(current.proof, 'proof')
+        const mintHash =
+          current.submitVia === 'relayer'
+            ? await submitRelayedMint(
+                targetChainId,
+                required(current.note, 'note'),
+                proof,
+                controller.signal,
+              )
+            : await submitPrivateMint(targetChainId, proof)
+        await localNullifierRegistry.markSpent(
+          required(current.witness, 'witness').nullifier,
+        )
+        // The notes list shows the note as spent right away
+        queryClient.invalidateQueries({ queryKey: ['isNullifierSpent'] })
+        advance({ mintHash, step: 'done' })
+      }
+    } catch (error) {
+      // A cancelled step is left as it was, to be continued later
+      advance(
+        controller.signal.aborted
+          ? { workerProgress: undefined }
+          : { error: (error as Error).message },
+      )
+    } finally {
+      advance({ isRunning: false })
+    }
+  }
+
+  const resumeFrom = (encoded: string) => {
+    const note = notes.find((note) => encodeNote(note) === encoded)
+    if (note) setState({ ...initialState, note, step: 'receiptProof' })
+  }
+
+  const progress =
+    ((stepIndex(state) + (state.workerProgress?.progress ?? 0)) /
+      PRIVATE_TRANSFER_STEPS.length) *
+    100
+
+  const isButtonDisabled =
+    !address ||
+    !vault ||
+    !recipient ||
+    state.isRunning ||
+    state.step === 'done' ||
+    (!hasStarted && !amount) ||
+    sourceChainId === targetChainId
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-semibold">Private Transfer {symbol}</h2>
+        <p className="text-sm text-muted-foreground">
+          Burn on one network and mint on another with a zero-knowledge proof
+          that does not link the two
+        </p>
+      </div>
+
+      {!vault && (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Unlock the note vault</AlertTitle>
+          <AlertDescription>
+            The note of the burn is stored in the vault, it is needed to mint.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label>Amount</Label>
+          <Input
+            type="number"
+            placeholder="0.0"
+            value={amount}
+            disabled={hasStarted}
+            onChange={(e) => setAmount(e.target.value)}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>From Network</Label>
+            <Select
+              onValueChange={setSourceChain}
+              disabled={hasStarted}
+              value={sourceChainId.toString()}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select network" />
+              </SelectTrigger>
+              <SelectContent>
+                {chains.map((chain) => (
+                  <SelectItem key={chain.id} value={chain.id.toString()}>
+                    {chain.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>To Network</Label>
+            <Select
+              onValueChange={setTargetChain}
+              disabled={state.isRunning || state.step === 'mint'}
+              value={targetChainIdString}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select network" />
+              </SelectTrigger>
+              <SelectContent>
+                {chains
+                  .filter((chain) => chain.id !== sourceChainId)
+                  .map((chain) => (
+                    <SelectItem key={chain.id} value={chain.id.toString()}>
+                      {chain.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Recipient</Label>
+            <Input
+              placeholder="0x... a fresh address"
+              value={recipientInput}
+              disabled={state.isRunning || !!state.witness}
+              onChange={(e) => setRecipient(e.target.value)}
+            />
+            {!recipient && recipientValue && (
+              <p className="text-xs text-red-500">
+                {isConnectedWallet
+                  ? 'The connected wallet made the burn, minting to it links the two'
+                  : 'Not an address'}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Mint sent by</Label>
+            <Select
+              onValueChange={(value) => setSubmitVia(value as SubmitVia)}
+              disabled={state.isRunning || !!state.witness}
+              value={submitVia}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="relayer" disabled={!relayer}>
+                  Relayer, for a fee
+                </SelectItem>
+                <SelectItem value="wallet">Connected wallet</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        {submitVia === 'wallet' && (
+          <p className="text-xs text-muted-foreground">
+            The connected wallet pays the mint gas, which links the mint to it.
+            Use the relayer to keep the recipient unlinked.
+          </p>
+        )}
+
+        {vault && notes.length > 0 && !hasStarted && (
+          <div className="space-y-2">
+            <Label>Or resume from a stored note</Label>
+            <Select onValueChange={resumeFrom}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select note" />
+              </SelectTrigger>
+              <SelectContent>
+                {notes.map((note) => (
+                  <SelectItem key={encodeNote(note)} value={encodeNote(note)}>
+                    {chains.find((chain) => chain.id === note.sourceChainId)
+                      ?.name || 'Unknown Chain'}{' '}
+                    • Block #{note.blockNumber.toString()} • Tx #
+                    {note.transactionIndex}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {PRIVATE_TRANSFER_STEPS.map((step, index) => (
+          <div key={step.id} className="flex items-center gap-3 text-sm">
+            <StepIcon index={index} state={state} />
+            <span>{step.label}</span>
+          </div>
+        ))}
+      </div>
+
+      {hasStarted && (
+        <div className="space-y-1">
+          <Progress value={progress} />
+          {state.isRunning && state.workerProgress && (
+            <div className="text-xs text-muted-foreground">
+              {PROOF_WORKER_STAGE_LABELS[state.workerProgress.stage]}...
+            </div>
+          )}
+        </div>
+      )}
+
+      {state.burn && (
+        <div className="text-xs text-muted-foreground font-mono truncate">
+          Burn address: {state.burn.burnAddress}
+        </div>
+      )}
+      {state.error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription className="break-all">
+            {state.error}
+          </AlertDescription>
+        </Alert>
+      )}
+      {state.mintHash && (
+        <Alert>
+          <CheckCircle2 className="h-4 w-4" />
+          <AlertTitle>Minted</AlertTitle>
+          <AlertDescription className="break-all">
+            {state.mintHash}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          className="flex-1"
+          size="lg"
+          disabled={isButtonDisabled}
+          onClick={run}
+        >
+          {state.isRunning ? (
+            <>
+              <span className="mr-2">Transferring...</span>
+              <div className="h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
+            </>
+          ) : state.error ? (
+            'Retry'
+          ) : hasStarted ? (
+            'Continue'
+          ) : (
+            'Transfer privately'
+          )}
+        </Button>
+        {state.isRunning && WORKER_STEPS.includes(state.step) && (
+          <Button
+            variant="outline"
+            size="lg"
+            onClick={() => abortController.current?.abort()}
+          >
+            Cancel
+          </Button>
+        )}
+        {hasStarted && !state.isRunning && (
+          <Button
+            variant="outline"
+            size="lg"
+            onClick={() => {
+              setAmount('')
+              setRecipient('')
+              setState(initialState)
+            }}
+          >
+            New transfer
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
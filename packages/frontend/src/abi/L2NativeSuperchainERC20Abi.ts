@@ -1,333 +0,0 @@
-export const L2NativeSuperchainERC20Abi = [
-  {
-    type: 'constructor',
-    inputs: [
-      { name: 'owner_', type: 'address', internalType: 'address' },
-      { name: 'name_', type: 'string', internalType: 'string' },
-      { name: 'symbol_', type: 'string', internalType: 'string' },
-      { name: 'decimals_', type: 'uint8', internalType: 'uint8' },
-    ],
-    stateMutability: 'nonpayable',
-  },
-  {
-    type: 'function',
-    name: 'DOMAIN_SEPARATOR',
-    inputs: [],
-    outputs: [{ name: 'result', type: 'bytes32', internalType: 'bytes32' }],
-    stateMutability: 'view',
-  },
-  {
-    type: 'function',
-    name: 'allowance',
-    inputs: [
-      { name: 'owner', type: 'address', internalType: 'address' },
-      { name: 'spender', type: 'address', internalType: 'address' },
-    ],
-    outputs: [{ name: 'result', type: 'uint256', internalType: 'uint256' }],
-    stateMutability: 'view',
-  },
-  {
-    type: 'function',
-    name: 'approve',
-    inputs: [
-      { name: 'spender', type: 'address', internalType: 'address' },
-      { name: 'amount', type: 'uint256', internalType: 'uint256' },
-    ],
-    outputs: [{ name: '', type: 'bool', internalType: 'bool' }],
-    stateMutability: 'nonpayable',
-  },
-  {
-    type: 'function',
-    name: 'balanceOf',
-    inputs: [{ name: 'owner', type: 'address', internalType: 'address' }],
-    outputs: [{ name: 'result', type: 'uint256', internalType: 'uint256' }],
-    stateMutability: 'view',
-  },
-  {
-    type: 'function',
-    name: 'cancelOwnershipHandover',
-    inputs: [],
-    outputs: [],
-    stateMutability: 'payable',
-  },
-  {
-    type: 'function',
-    name: 'completeOwnershipHandover',
-    inputs: [
-      { name: 'pendingOwner', type: 'address', internalType: 'address' },
-    ],
-    outputs: [],
-    stateMutability: 'payable',
-  },
-  {
-    type: 'function',
-    name: 'crosschainBurn',
-    inputs: [
-      { name: '_from', type: 'address', internalType: 'address' },
-      { name: '_amount', type: 'uint256', internalType: 'uint256' },
-    ],
-    outputs: [],
-    stateMutability: 'nonpayable',
-  },
-  {
-    type: 'function',
-    name: 'crosschainMint',
-    inputs: [
-      { name: '_to', type: 'address', internalType: 'address' },
-      { name: '_amount', type: 'uint256', internalType: 'uint256' },
-    ],
-    outputs: [],
-    stateMutability: 'nonpayable',
-  },
-  {
-    type: 'function',
-    name: 'decimals',
-    inputs: [],
-    outputs: [{ name: '', type: 'uint8', internalType: 'uint8' }],
-    stateMutability: 'view',
-  },
-  {
-    type: 'function',
-    name: 'mintTo',
-    inputs: [
-      { name: 'to_', type: 'address', internalType: 'address' },
-      { name: 'amount_', type: 'uint256', internalType: 'uint256' },
-    ],
-    outputs: [],
-    stateMutability: 'nonpayable',
-  },
-  {
-    type: 'function',
-    name: 'name',
-    inputs: [],
-    outputs: [{ name: '', type: 'string', internalType: 'string' }],
-    stateMutability: 'view',
-  },
-  {
-    type: 'function',
-    name: 'nonces',
-    inputs: [{ name: 'owner', type: 'address', internalType: 'address' }],
-    outputs: [{ name: 'result', type: 'uint256', internalType: 'uint256' }],
-    stateMutability: 'view',
-  },
-  {
-    type: 'function',
-    name: 'owner',
-    inputs: [],
-    outputs: [{ name: 'result', type: 'address', internalType: 'address' }],
-    stateMutability: 'view',
-  },
-  {
-    type: 'function',
-    name: 'ownershipHandoverExpiresAt',
-    inputs: [
-      { name: 'pendingOwner', type: 'address', internalType: 'address' },
-    ],
-    outputs: [{ name: 'result', type: 'uint256', internalType: 'uint256' }],
-    stateMutability: 'view',
-  },
-  {
-    type: 'function',
-    name: 'permit',
-    inputs: [
-      { name: 'owner', type: 'address', internalType: 'address' },
-      { name: 'spender', type: 'address', internalType: 'address' },
-      { name: 'value', type: 'uint256', internalType: 'uint256' },
-      { name: 'deadline', type: 'uint256', internalType: 'uint256' },
-      { name: 'v', type: 'uint8', internalType: 'uint8' },
-      { name: 'r', type: 'bytes32', internalType: 'bytes32' },
-      { name: 's', type: 'bytes32', internalType: 'bytes32' },
-    ],
-    outputs: [],
-    stateMutability: 'nonpayable',
-  },
-  {
-    type: 'function',
-    name: 'renounceOwnership',
-    inputs: [],
-    outputs: [],
-    stateMutability: 'payable',
-  },
-  {
-    type: 'function',
-    name: 'requestOwnershipHandover',
-    inputs: [],
-    outputs: [],
-    stateMutability: 'payable',
-  },
-  {
-    type: 'function',
-    name: 'symbol',
-    inputs: [],
-    outputs: [{ name: '', type: 'string', internalType: 'string' }],
-    stateMutability: 'view',
-  },
-  {
-    type: 'function',
-    name: 'totalSupply',
-    inputs: [],
-    outputs: [{ name: 'result', type: 'uint256', internalType: 'uint256' }],
-    stateMutability: 'view',
-  },
-  {
-    type: 'function',
-    name: 'transfer',
-    inputs: [
-      { name: 'to', type: 'address', internalType: 'address' },
-      { name: 'amount', type: 'uint256', internalType: 'uint256' },
-    ],
-    outputs: [{ name: '', type: 'bool', internalType: 'bool' }],
-    stateMutability: 'nonpayable',
-  },
-  {
-    type: 'function',
-    name: 'transferFrom',
-    inputs: [
-      { name: 'from', type: 'address', internalType: 'address' },
-      { name: 'to', type: 'address', internalType: 'address' },
-      { name: 'amount', type: 'uint256', internalType: 'uint256' },
-    ],
-    outputs: [{ name: '', type: 'bool', internalType: 'bool' }],
-    stateMutability: 'nonpayable',
-  },
-  {
-    type: 'function',
-    name: 'transferOwnership',
-    inputs: [{ name: 'newOwner', type: 'address', internalType: 'address' }],
-    outputs: [],
-    stateMutability: 'payable',
-  },
-  {
-    type: 'function',
-    name: 'version',
-    inputs: [],
-    outputs: [{ name: '', type: 'string', internalType: 'string' }],
-    stateMutability: 'view',
-  },
-  {
-    type: 'event',
-    name: 'Approval',
-    inputs: [
-      {
-        name: 'owner',
-        type: 'address',
-        indexed: true,
-        internalType: 'address',
-      },
-      {
-        name: 'spender',
-        type: 'address',
-        indexed: true,
-        internalType: 'address',
-      },
-      {
-        name: 'amount',
-        type: 'uint256',
-        indexed: false,
-        internalType: 'uint256',
-      },
-    ],
-    anonymous: false,
-  },
-  {
-    type: 'event',
-    name: 'CrosschainBurn',
-    inputs: [
-      { name: 'from', type: 'address', indexed: true, internalType: 'address' },
-      {
-        name: 'amount',
-        type: 'uint256',
-        indexed: false,
-        internalType: 'uint256',
-      },
-    ],
-    anonymous: false,
-  },
-  {
-    type: 'event',
-    name: 'CrosschainMint',
-    inputs: [
-      { name: 'to', type: 'address', indexed: true, internalType: 'address' },
-      {
-        name: 'amount',
-        type: 'uint256',
-        indexed: false,
-        internalType: 'uint256',
-      },
-    ],
-    anonymous: false,
-  },
-  {
-    type: 'event',
-    name: 'OwnershipHandoverCanceled',
-    inputs: [
-      {
-        name: 'pendingOwner',
-        type: 'address',
-        indexed: true,
-        internalType: 'address',
-      },
-    ],
-    anonymous: false,
-  },
-  {
-    type: 'event',
-    name: 'OwnershipHandoverRequested',
-    inputs: [
-      {
-        name: 'pendingOwner',
-        type: 'address',
-        indexed: true,
-        internalType: 'address',
-      },
-    ],
-    anonymous: false,
-  },
-  {
-    type: 'event',
-    name: 'OwnershipTransferred',
-    inputs: [
-      {
-        name: 'oldOwner',
-        type: 'address',
-        indexed: true,
-        internalType: 'address',
-      },
-      {
-        name: 'newOwner',
-        type: 'address',
-        indexed: true,
-        internalType: 'address',
-      },
-    ],
-    anonymous: false,
-  },
-  {
-    type: 'event',
-    name: 'Transfer',
-    inputs: [
-      { name: 'from', type: 'address', indexed: true, internalType: 'address' },
-      { name: 'to', type: 'address', indexed: true, internalType: 'address' },
-      {
-        name: 'amount',
-        type: 'uint256',
-        indexed: false,
-        internalType: 'uint256',
-      },
-    ],
-    anonymous: false,
-  },
-  { type: 'error', name: 'AllowanceOverflow', inputs: [] },
-  { type: 'error', name: 'AllowanceUnderflow', inputs: [] },
-  { type: 'error', name: 'AlreadyInitialized', inputs: [] },
-  { type: 'error', name: 'InsufficientAllowance', inputs: [] },
-  { type: 'error', name: 'InsufficientBalance', inputs: [] },
-  { type: 'error', name: 'InvalidPermit', inputs: [] },
-  { type: 'error', name: 'NewOwnerIsZeroAddress', inputs: [] },
-  { type: 'error', name: 'NoHandoverRequest', inputs: [] },
-  { type: 'error', name: 'Permit2AllowanceIsFixedAtInfinity', inputs: [] },
-  { type: 'error', name: 'PermitExpired', inputs: [] },
-  { type: 'error', name: 'TotalSupplyOverflow', inputs: [] },
-  { type: 'error', name: 'Unauthorized', inputs: [] },
-  { type: 'error', name: 'Unauthorized', inputs: [] },
-] as const
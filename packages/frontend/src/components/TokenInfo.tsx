@@ -1,4 +1,4 @@
-import { L2NativeSuperchainERC20Abi } from '@/abi/L2NativeSuperchainERC20Abi'
+import { L2NativeSuperchainERC20Abi } from '@superchainerc20-starter/wormhole-sdk'
 import { Card } from '@/components/ui/card'
 import { envVars } from '@/envVars'
 import { Copy } from 'lucide-react'
@@ -0,0 +1,329 @@
+import { ChangeEvent, useRef, useState } from 'react'
+import { formatUnits } from 'viem'
+import { useAccount, useSignMessage } from 'wagmi'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import {
+  Copy,
+  Download,
+  Loader2,
+  Lock,
+  RotateCcw,
+  Trash2,
+  Unlock,
+  Upload,
+  Wallet,
+} from 'lucide-react'
+import {
+  encodeNote,
+  parseNote,
+  WormholeNote,
+} from '@superchainerc20-starter/wormhole-sdk'
+import { Card } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { chains } from '@/config'
+import { useIsNoteSpent } from '@/hooks/useNullifierRegistry'
+import { useTokenInfo } from '@/hooks/useTokenInfo'
+import { useToast } from '@/hooks/use-toast'
+import { downloadNote, downloadNoteBackup, readNoteFile } from '@/lib/noteFile'
+import { useNoteStore } from '@/notes/notes'
+import { useRecoverNotes } from '@/hooks/useRecoverNotes'
+import {
+  getNoteVaultMethod,
+  UnlockNoteVaultArgs,
+  VAULT_SIGNATURE_MESSAGE,
+} from '@/notes/vault'
+
+const VaultUnlock = () => {
+  const unlock = useNoteStore((state) => state.unlock)
+  const { address } = useAccount()
+  const { signMessageAsync } = useSignMessage()
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+  const [passphrase, setPassphrase] = useState('')
+  const [isUnlocking, setIsUnlocking] = useState(false)
+
+  const { data: method, isLoading } = useQuery({
+    queryKey: ['noteVaultMethod'],
+    queryFn: async () => (await getNoteVaultMethod()) ?? null,
+  })
+
+  const unlockWith = async (getArgs: () => Promise<UnlockNoteVaultArgs>) => {
+    setIsUnlocking(true)
+    try {
+      await unlock(await getArgs())
+      setPassphrase('')
+      // The first unlock creates the vault
+      queryClient.invalidateQueries({ queryKey: ['noteVaultMethod'] })
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not unlock the note vault',
+        description: (error as Error).message,
+      })
+    } finally {
+      setIsUnlocking(false)
+    }
+  }
+
+  if (isLoading) {
+    return <Loader2 className="h-4 w-4 animate-spin" />
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="text-sm text-muted-foreground">
+        {method
+          ? 'Notes are encrypted in this browser. Unlock the vault to use them.'
+          : 'Create a vault to keep notes encrypted in this browser, with a passphrase or a wallet signature.'}
+      </div>
+
+      {method !== 'signature' && (
+        <div className="flex gap-2">
+          <Input
+            type="password"
+            placeholder="Passphrase"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+          />
+          <Button
+            disabled={!passphrase || isUnlocking}
+            onClick={() =>
+              unlockWith(async () => ({
+                method: 'passphrase',
+                secret: passphrase,
+              }))
+            }
+          >
+            {isUnlocking ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Unlock className="h-4 w-4" />
+            )}
+          </Button>
+        </div>
+      )}
+
+      {method !== 'passphrase' && (
+        <Button
+          variant="outline"
+          className="w-full flex items-center gap-2"
+          disabled={!address || isUnlocking}
+          onClick={() =>
+            unlockWith(async () => ({
+              method: 'signature',
+              secret: await signMessageAsync({
+                message: VAULT_SIGNATURE_MESSAGE,
+              }),
+            }))
+          }
+        >
+          <Wallet className="h-4 w-4" />
+          {address ? 'Unlock with wallet' : 'Connect a wallet to unlock'}
+        </Button>
+      )}
+    </div>
+  )
+}
+
+const SpentLabel = ({ note }: { note: WormholeNote }) => {
+  const { data: isSpent } = useIsNoteSpent(note)
+
+  return isSpent ? <> • Spent</> : null
+}
+
+export const WormholeNotes = () => {
+  const { vault, notes, lock, addNotes, deleteNote } = useNoteStore()
+  const { address } = useAccount()
+  const recoverNotes = useRecoverNotes()
+  const { symbol, decimals } = useTokenInfo()
+  const { toast } = useToast()
+  const [pasted, setPasted] = useState('')
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  const importNotes = (read: () => Promise<ReturnType<typeof parseNote>[]>) =>
+    read()
+      .then(addNotes)
+      .then(() => {
+        setPasted('')
+        toast({ description: 'Notes imported', duration: 2000 })
+      })
+      .catch((error: Error) =>
+        toast({
+          variant: 'destructive',
+          title: 'Could not import notes',
+          description: error.message,
+        }),
+      )
+
+  const onFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    // Reset so that choosing the same file again triggers a change
+    event.target.value = ''
+    if (file) importNotes(() => readNoteFile(file))
+  }
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold">Wormhole Notes</h2>
+        {vault && (
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              title="Import notes"
+              onClick={() => fileInput.current?.click()}
+            >
+              <Upload className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              title="Recover notes from the connected wallet"
+              disabled={!address || recoverNotes.isPending}
+              onClick={() =>
+                recoverNotes.mutate(undefined, {
+                  onSuccess: (recovered) =>
+                    toast({
+                      description: `Recovered ${recovered.length} notes`,
+                      duration: 2000,
+                    }),
+                  onError: (error) =>
+                    toast({
+                      variant: 'destructive',
+                      title: 'Could not recover notes',
+                      description: error.message,
+                    }),
+                })
+              }
+            >
+              {recoverNotes.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <RotateCcw className="h-4 w-4" />
+              )}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              title="Export all notes"
+              disabled={notes.length === 0}
+              onClick={async () => downloadNoteBackup(await vault.export())}
+            >
+              <Download className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              title="Lock the vault"
+              onClick={lock}
+            >
+              <Lock className="h-4 w-4" />
+            </Button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".json,.txt,application/json,text/plain"
+              className="hidden"
+              onChange={onFileChange}
+            />
+          </div>
+        )}
+      </div>
+
+      {!vault ? (
+        <VaultUnlock />
+      ) : (
+        <>
+          <div className="flex gap-2 mb-4">
+            <Input
+              placeholder="zkw-note-v1-..."
+              value={pasted}
+              onChange={(e) => setPasted(e.target.value)}
+            />
+            <Button
+              variant="secondary"
+              disabled={!pasted.trim()}
+              onClick={() => importNotes(async () => [parseNote(pasted)])}
+            >
+              Add
+            </Button>
+          </div>
+
+          {notes.length === 0 ? (
+            <div className="text-sm text-muted-foreground">No notes</div>
+          ) : (
+            <div className="space-y-4">
+              {notes.map((note) => (
+                <div
+                  key={encodeNote(note)}
+                  className="flex items-center justify-between gap-2"
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium">
+                      {decimals && symbol
+                        ? `${formatUnits(note.amount, decimals)} ${symbol}`
+                        : '...'}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {chains.find((chain) => chain.id === note.sourceChainId)
+                        ?.name || 'Unknown Chain'}{' '}
+                      • Block #{note.blockNumber.toString()} • Tx #
+                      {note.transactionIndex}
+                      <SpentLabel note={note} />
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      title="Copy note"
+                      onClick={() => {
+                        navigator.clipboard.writeText(encodeNote(note))
+                        toast({
+                          description: 'Note copied to clipboard',
+                          duration: 2000,
+                        })
+                      }}
+                    >
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      title="Download note"
+                      onClick={() => downloadNote(note)}
+                    >
+                      <Download className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      title="Delete note"
+                      onClick={() => {
+                        // Without the note the burnt tokens cannot be minted
+                        if (
+                          window.confirm(
+                            'Delete this note? Download it first if it was not minted yet.',
+                          )
+                        ) {
+                          deleteNote(note)
+                        }
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </Card>
+  )
+}
@@ -1,12 +1,12 @@
 import { createConfig, http } from 'wagmi'
-import { supersimL2A, supersimL2B } from '@eth-optimism/viem'
+import { supersimChains } from '@superchainerc20-starter/wormhole-sdk/chains'
 import { metaMask, walletConnect } from 'wagmi/connectors'
 import { privateKeyToAccount } from 'viem/accounts'
 import { devAccount } from '@/connectors/devAccount'
 import { envVars } from '@/envVars'
 import { HttpTransport } from 'viem'
 
-export const chains = [supersimL2A, supersimL2B] as const
+export const chains = supersimChains
 
 export const transports = Object.fromEntries(
   chains.map((chain) => [chain.id, http()]),
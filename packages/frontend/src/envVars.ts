@@ -12,8 +12,40 @@ const zAddressWithDefault = (defaultAddress: Address) =>
       return ZodAddress.parse(address)
     })
 
+// chainId=block pairs, e.g. "901=1200,902=1180"
+const zBlockByChainId = () =>
+  z
+    .string()
+    .optional()
+    .transform((val, ctx) => {
+      const blocks: Record<number, bigint> = {}
+      for (const pair of (val ?? '').split(',')) {
+        if (pair.trim() === '') continue
+        const match = /^\s*(\d+)\s*=\s*(\d+)\s*$/.exec(pair)
+        if (!match) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Expected a chainId=block pair, got "${pair}"`,
+          })
+          return z.NEVER
+        }
+        blocks[Number(match[1])] = BigInt(match[2])
+      }
+      return blocks
+    })
+
 export const envVars = parseEnv(import.meta.env, {
   VITE_TOKEN_CONTRACT_ADDRESS: zAddressWithDefault(deployment.deployedAddress),
   VITE_TOKEN_MINTER_ADDRESS: zAddressWithDefault(deployment.ownerAddress),
   VITE_WALLET_CONNECT_PROJECT_ID: z.string().optional(),
+  // where note recovery starts scanning, chains left out are scanned from 0
+  VITE_TOKEN_DEPLOYMENT_BLOCKS: zBlockByChainId(),
+  // relayer that can submit the mint, so that the recipient needs no gas
+  VITE_RELAYER_URL: z
+    .string()
+    .optional()
+    .transform((val) => val?.trim() || undefined),
+  VITE_PROVER: z.enum(['mock', 'groth16']).default('mock'),
+  VITE_PROVER_WASM_URL: z.string().optional(),
+  VITE_PROVER_ZKEY_URL: z.string().optional(),
 })
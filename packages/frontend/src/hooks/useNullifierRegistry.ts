@@ -0,0 +1,65 @@
+import { useMemo } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { usePublicClient } from 'wagmi'
+import { getPublicClient } from '@wagmi/core'
+import {
+  combineNullifierRegistries,
+  createLocalNullifierRegistry,
+  createOnchainNullifierRegistry,
+  deriveNullifier,
+  WormholeNote,
+} from '@superchainerc20-starter/wormhole-sdk'
+import { chains, config } from '@/config'
+import { envVars } from '@/envVars'
+
+type ChainId = (typeof chains)[number]['id']
+
+// Mints submitted from this browser that the destination chain may not have
+// included yet
+export const localNullifierRegistry = createLocalNullifierRegistry({
+  storage: localStorage,
+})
+
+export const useNullifierRegistry = (chainId: ChainId) => {
+  const client = usePublicClient({ chainId })
+
+  return useMemo(() => {
+    if (!client) return localNullifierRegistry
+
+    return combineNullifierRegistries(
+      createOnchainNullifierRegistry({
+        client,
+        address: envVars.VITE_TOKEN_CONTRACT_ADDRESS,
+      }),
+      localNullifierRegistry,
+    )
+  }, [client])
+}
+
+// A note mints on any chain but its source, so it is spent once one of them
+// used its nullifier or this browser submitted its mint
+export const useIsNoteSpent = (note: WormholeNote) => {
+  const nullifier = deriveNullifier({
+    secret: note.secret,
+    chainId: note.sourceChainId,
+    blockNumber: note.blockNumber,
+    transactionIndex: note.transactionIndex,
+    logIndex: note.logIndex,
+  })
+
+  return useQuery({
+    queryKey: ['isNullifierSpent', nullifier],
+    queryFn: () =>
+      combineNullifierRegistries(
+        ...chains
+          .filter(({ id }) => id !== note.sourceChainId)
+          .map(({ id }) =>
+            createOnchainNullifierRegistry({
+              client: getPublicClient(config, { chainId: id }),
+              address: envVars.VITE_TOKEN_CONTRACT_ADDRESS,
+            }),
+          ),
+        localNullifierRegistry,
+      ).isSpent(nullifier),
+  })
+}
@@ -0,0 +1,57 @@
+import { useMutation } from '@tanstack/react-query'
+import { getPublicClient } from '@wagmi/core'
+import { useSignTypedData } from 'wagmi'
+import {
+  recoverWormholeNotes,
+  WORMHOLE_SECRETS_TYPED_DATA,
+  WormholeNote,
+} from '@superchainerc20-starter/wormhole-sdk'
+import { chains, config } from '@/config'
+import { envVars } from '@/envVars'
+import { useNoteStore } from '@/notes/notes'
+import { deriveSecretsInWorker } from '@/zkWormholes/proofWorker'
+import { BURN_SCAN_BATCH, MAX_BURN_INDEX } from '@/zkWormholes/privateTransfer'
+
+// Regenerate the burn secrets of the connected wallet in the proof worker and
+// rebuild the notes of every burn to them, on all chains since the token was
+// deployed. Indexes are scanned a batch at a time, up to the last index a
+// burn can take, and the scan stops at the first batch without burns.
+export const useRecoverNotes = () => {
+  const { signTypedDataAsync } = useSignTypedData()
+  const addNotes = useNoteStore((state) => state.addNotes)
+
+  return useMutation({
+    mutationFn: async () => {
+      const signature = await signTypedDataAsync(WORMHOLE_SECRETS_TYPED_DATA)
+      const notes: WormholeNote[] = []
+
+      for (
+        let fromIndex = 0;
+        fromIndex < MAX_BURN_INDEX;
+        fromIndex += BURN_SCAN_BATCH
+      ) {
+        const secrets = await deriveSecretsInWorker({
+          signature,
+          fromIndex,
+          count: BURN_SCAN_BATCH,
+        })
+        const recovered = await Promise.all(
+          chains.map((chain) =>
+            recoverWormholeNotes({
+              client: getPublicClient(config, { chainId: chain.id }),
+              token: envVars.VITE_TOKEN_CONTRACT_ADDRESS,
+              secrets,
+              fromBlock: envVars.VITE_TOKEN_DEPLOYMENT_BLOCKS[chain.id],
+            }),
+          ),
+        )
+        const batch = recovered.flat().map(({ note }) => note)
+        if (batch.length === 0) break
+        notes.push(...batch)
+      }
+
+      await addNotes(notes)
+      return notes
+    },
+  })
+}
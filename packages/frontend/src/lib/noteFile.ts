@@ -0,0 +1,66 @@
+import {
+  noteFromJson,
+  noteToJson,
+  parseNote,
+  WormholeNote,
+  WormholeNoteJson,
+} from '@superchainerc20-starter/wormhole-sdk'
+
+/**
+ * File name identifying the burn a note belongs to
+ * @param note - The note
+ * @returns The file name
+ */
+export function noteFileName(note: WormholeNote): string {
+  return `zkw-note-${note.sourceChainId}-${note.blockNumber}-${note.transactionIndex}-${note.logIndex}.json`
+}
+
+function downloadJson(fileName: string, value: unknown) {
+  const blob = new Blob([JSON.stringify(value, null, 2)], {
+    type: 'application/json',
+  })
+  const url = URL.createObjectURL(blob)
+
+  const anchor = document.createElement('a')
+  anchor.href = url
+  anchor.download = fileName
+  anchor.click()
+
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Save a note as a JSON file through the browser's download prompt
+ * @param note - The note to save
+ */
+export function downloadNote(note: WormholeNote) {
+  downloadJson(noteFileName(note), noteToJson(note))
+}
+
+/**
+ * Save a backup of several notes, e.g. a vault export, as one JSON file
+ * @param notes - The notes in JSON form
+ */
+export function downloadNoteBackup(notes: WormholeNoteJson[]) {
+  const date = new Date().toISOString().slice(0, 10)
+  downloadJson(`zkw-notes-${date}.json`, notes)
+}
+
+/**
+ * Read the notes of a file holding one note, as JSON or as its compact
+ * string, or a backup of several notes
+ * @param file - The file to read
+ * @returns The notes
+ */
+export async function readNoteFile(file: File): Promise<WormholeNote[]> {
+  const text = (await file.text()).trim()
+  if (!text.startsWith('[')) return [parseNote(text)]
+
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    throw new Error('Invalid note backup: malformed JSON')
+  }
+  return (json as unknown[]).map(noteFromJson)
+}
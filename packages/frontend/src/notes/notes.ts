@@ -0,0 +1,40 @@
+import { create } from 'zustand'
+import { WormholeNote } from '@superchainerc20-starter/wormhole-sdk'
+import { NoteVault, UnlockNoteVaultArgs, unlockNoteVault } from './vault'
+
+interface NoteState {
+  // null while locked
+  vault: NoteVault | null
+  notes: WormholeNote[]
+  unlock: (args: UnlockNoteVaultArgs) => Promise<void>
+  lock: () => void
+  addNotes: (notes: WormholeNote[]) => Promise<void>
+  deleteNote: (note: WormholeNote) => Promise<void>
+}
+
+const lockedVault = (): NoteVault => {
+  throw new Error('Unlock the note vault first')
+}
+
+// Decrypted notes are only kept in memory while the vault is unlocked
+export const useNoteStore = create<NoteState>((set, get) => ({
+  vault: null,
+  notes: [],
+  unlock: async (args) => {
+    const vault = await unlockNoteVault(args)
+    set({ vault, notes: await vault.list() })
+  },
+  lock: () => set({ vault: null, notes: [] }),
+  addNotes: async (notes) => {
+    const vault = get().vault ?? lockedVault()
+    for (const note of notes) {
+      await vault.add(note)
+    }
+    set({ notes: await vault.list() })
+  },
+  deleteNote: async (note) => {
+    const vault = get().vault ?? lockedVault()
+    await vault.delete(note)
+    set({ notes: await vault.list() })
+  },
+}))
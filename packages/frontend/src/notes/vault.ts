@@ -0,0 +1,261 @@
+import { Hex, hexToBytes, sha256, stringToBytes } from 'viem'
+import {
+  encodeNote,
+  noteFromJson,
+  noteToJson,
+  WormholeNote,
+  WormholeNoteJson,
+} from '@superchainerc20-starter/wormhole-sdk'
+
+/**
+ * How the vault key is derived: from a passphrase, or from a wallet signature
+ * over `VAULT_SIGNATURE_MESSAGE`
+ */
+export type VaultUnlockMethod = 'passphrase' | 'signature'
+
+/**
+ * Arguments for unlocking the vault, the vault is created on first unlock
+ */
+export type UnlockNoteVaultArgs = {
+  method: VaultUnlockMethod
+  // the passphrase, or the hex signature
+  secret: string
+}
+
+/**
+ * An unlocked vault. The key only lives in this object and cannot be
+ * exported, dropping the object locks the vault.
+ */
+export type NoteVault = {
+  list: () => Promise<WormholeNote[]>
+  add: (note: WormholeNote) => Promise<void>
+  delete: (note: WormholeNote) => Promise<void>
+  // plaintext backup of every note, to be re-imported with `readNoteFile`
+  export: () => Promise<WormholeNoteJson[]>
+}
+
+type EncryptedEntry = {
+  iv: Uint8Array
+  ciphertext: ArrayBuffer
+}
+
+type VaultMeta = {
+  method: VaultUnlockMethod
+  salt: Uint8Array
+  // known plaintext encrypted under the key, to tell a wrong secret apart
+  check: EncryptedEntry
+}
+
+type StoredNote = EncryptedEntry & {
+  // hash of the encoded note, so that a note is only stored once
+  id: Hex
+}
+
+// Signed with personal_sign, the signature must stay the same for every
+// unlock so it is never requested with a nonce or a date
+export const VAULT_SIGNATURE_MESSAGE =
+  'Unlock the zk wormholes note vault.\n\nOnly sign this message on a site you trust: the signature decrypts your wormhole notes.'
+
+const DB_NAME = 'zkw-note-vault'
+const DB_VERSION = 1
+const META_STORE = 'meta'
+const META_KEY = 'meta'
+const NOTES_STORE = 'notes'
+
+const CHECK_PLAINTEXT = 'zkw-note-vault-v1'
+// OWASP recommendation for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 600_000
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+function openDb(): Promise<IDBDatabase> {
+  const req = indexedDB.open(DB_NAME, DB_VERSION)
+  req.onupgradeneeded = () => {
+    req.result.createObjectStore(META_STORE)
+    req.result.createObjectStore(NOTES_STORE, { keyPath: 'id' })
+  }
+  return request(req)
+}
+
+// Run one request in its own transaction. The result is only returned once
+// the transaction commits, so a write has landed when the promise resolves.
+async function withStore<T>(
+  name: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const fail = (error: unknown) => {
+      db.close()
+      reject(error)
+    }
+    try {
+      const transaction = db.transaction(name, mode)
+      const req = run(transaction.objectStore(name))
+      transaction.oncomplete = () => {
+        db.close()
+        resolve(req.result)
+      }
+      transaction.onerror = transaction.onabort = () =>
+        fail(
+          req.error ??
+            transaction.error ??
+            new Error(`The ${name} transaction was aborted`),
+        )
+    } catch (error) {
+      fail(error)
+    }
+  })
+}
+
+async function deriveKey(
+  { method, secret }: UnlockNoteVaultArgs,
+  salt: Uint8Array,
+): Promise<CryptoKey> {
+  // A signature already has full entropy, a passphrase needs stretching
+  const algorithm = method === 'passphrase' ? 'PBKDF2' : 'HKDF'
+  const material = await crypto.subtle.importKey(
+    'raw',
+    method === 'passphrase' ? stringToBytes(secret) : hexToBytes(secret as Hex),
+    algorithm,
+    false,
+    ['deriveKey'],
+  )
+
+  return crypto.subtle.deriveKey(
+    method === 'passphrase'
+      ? { name: 'PBKDF2', hash: 'SHA-256', salt, iterations: PBKDF2_ITERATIONS }
+      : { name: 'HKDF', hash: 'SHA-256', salt, info: stringToBytes(DB_NAME) },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  )
+}
+
+async function encrypt(
+  key: CryptoKey,
+  plaintext: string,
+  additionalData: Uint8Array,
+): Promise<EncryptedEntry> {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData },
+    key,
+    stringToBytes(plaintext),
+  )
+  return { iv, ciphertext }
+}
+
+async function decrypt(
+  key: CryptoKey,
+  { iv, ciphertext }: EncryptedEntry,
+  additionalData: Uint8Array,
+): Promise<string> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv, additionalData },
+    key,
+    ciphertext,
+  )
+  return new TextDecoder().decode(plaintext)
+}
+
+const noteId = (note: WormholeNote): Hex =>
+  sha256(stringToBytes(encodeNote(note)))
+
+/**
+ * Read how the existing vault is unlocked
+ * @returns The unlock method, undefined when no vault was created yet
+ */
+export async function getNoteVaultMethod(): Promise<
+  VaultUnlockMethod | undefined
+> {
+  const meta = await withStore<VaultMeta | undefined>(
+    META_STORE,
+    'readonly',
+    (store) => store.get(META_KEY),
+  )
+  return meta?.method
+}
+
+/**
+ * Unlock the note vault kept in IndexedDB, creating it on first use. Notes
+ * are encrypted one by one with AES-GCM, bound to their id.
+ * @param args - The unlock method and the passphrase or signature
+ * @returns The unlocked vault
+ */
+export async function unlockNoteVault(
+  args: UnlockNoteVaultArgs,
+): Promise<NoteVault> {
+  const checkData = stringToBytes(META_KEY)
+  const meta = await withStore<VaultMeta | undefined>(
+    META_STORE,
+    'readonly',
+    (store) => store.get(META_KEY),
+  )
+
+  let key: CryptoKey
+  if (!meta) {
+    const salt = crypto.getRandomValues(new Uint8Array(32))
+    key = await deriveKey(args, salt)
+    const created: VaultMeta = {
+      method: args.method,
+      salt,
+      check: await encrypt(key, CHECK_PLAINTEXT, checkData),
+    }
+    await withStore(META_STORE, 'readwrite', (store) =>
+      store.put(created, META_KEY),
+    )
+  } else {
+    if (meta.method !== args.method) {
+      throw new Error(`The note vault is unlocked with a ${meta.method}`)
+    }
+    key = await deriveKey(args, meta.salt)
+    const check = await decrypt(key, meta.check, checkData).catch(() => '')
+    if (check !== CHECK_PLAINTEXT) {
+      throw new Error(`Wrong ${args.method} for the note vault`)
+    }
+  }
+
+  const list = async () => {
+    const stored = await withStore<StoredNote[]>(
+      NOTES_STORE,
+      'readonly',
+      (store) => store.getAll(),
+    )
+    return Promise.all(
+      stored.map(async (entry) =>
+        noteFromJson(
+          JSON.parse(await decrypt(key, entry, hexToBytes(entry.id))),
+        ),
+      ),
+    )
+  }
+
+  return {
+    list,
+    add: async (note) => {
+      const id = noteId(note)
+      const entry = await encrypt(
+        key,
+        JSON.stringify(noteToJson(note)),
+        hexToBytes(id),
+      )
+      await withStore(NOTES_STORE, 'readwrite', (store) =>
+        store.put({ id, ...entry } satisfies StoredNote),
+      )
+    },
+    delete: async (note) => {
+      await withStore(NOTES_STORE, 'readwrite', (store) =>
+        store.delete(noteId(note)),
+      )
+    },
+    export: async () => (await list()).map(noteToJson),
+  }
+}
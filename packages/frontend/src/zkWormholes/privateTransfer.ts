@@ -0,0 +1,278 @@
+import { Address, Hash, Hex, isAddressEqual, pad } from 'viem'
+import {
+  getPublicClient,
+  readContracts,
+  signTypedData,
+  switchChain,
+  waitForTransactionReceipt,
+  writeContract,
+} from '@wagmi/core'
+import {
+  deriveBurnAddress,
+  fetchWormholeBlockData,
+  L2NativeSuperchainERC20Abi,
+  WORMHOLE_SECRETS_TYPED_DATA,
+  WormholeNote,
+  WormholeProof,
+  WormholeWitness,
+  ZkWormholesERC20Abi,
+} from '@superchainerc20-starter/wormhole-sdk'
+import {
+  createRelayerHttpClient,
+  requiredRelayerFee,
+} from '@superchainerc20-starter/relayer/browser'
+import { config } from '@/config'
+import { envVars } from '@/envVars'
+import {
+  buildWitnessInWorker,
+  deriveSecretsInWorker,
+  ProofWorkerOptions,
+} from '@/zkWormholes/proofWorker'
+
+type ChainId = (typeof config.chains)[number]['id']
+
+export const PRIVATE_TRANSFER_STEPS = [
+  { id: 'burnAddress', label: 'Derive burn address' },
+  { id: 'transfer', label: 'Send the transfer to the burn address' },
+  { id: 'inclusion', label: 'Wait for inclusion' },
+  { id: 'receiptProof', label: 'Fetch receipts and build the receipt proof' },
+  { id: 'zkProof', label: 'Generate the ZK proof' },
+  { id: 'mint', label: 'Mint on the destination chain' },
+] as const
+
+export type PrivateTransferStep = (typeof PRIVATE_TRANSFER_STEPS)[number]['id']
+
+/**
+ * Burn address derived for a transfer, before its note exists
+ */
+export type PendingBurn = {
+  index: number
+  secret: Hex
+  burnAddress: Address
+}
+
+// Burnt tokens can never leave a burn address, so an address without balance
+// was never burnt to
+export const MAX_BURN_INDEX = 1000
+
+// Secrets derived per worker job while looking for an unused index. Burns
+// take the first unused index, so a batch without burns ends a scan.
+export const BURN_SCAN_BATCH = 20
+
+/**
+ * Derive the burn address of the first index of the connected wallet that is
+ * unused on every chain. The secrets are the same on all chains, so a burn
+ * reusing an index burnt to on another chain would publicly link both burns.
+ * The secret comes from a signature, so "Recover notes" can find the burn
+ * again if the page is closed before its note is stored. The secrets are
+ * derived in the proof worker and the balances read with multicall, a batch
+ * of indexes at a time.
+ */
+export async function deriveNextBurn(
+  options: ProofWorkerOptions = {},
+): Promise<PendingBurn> {
+  const chainIds = config.chains.map(({ id }) => id)
+  const signature = await signTypedData(config, WORMHOLE_SECRETS_TYPED_DATA)
+
+  for (
+    let fromIndex = 0;
+    fromIndex < MAX_BURN_INDEX;
+    fromIndex += BURN_SCAN_BATCH
+  ) {
+    const secrets = await deriveSecretsInWorker(
+      { signature, fromIndex, count: BURN_SCAN_BATCH },
+      options,
+    )
+    const burnAddresses = secrets.map((secret) => deriveBurnAddress(secret))
+    // One balance per burn address and chain, chains innermost
+    const balances = await readContracts(config, {
+      contracts: burnAddresses.flatMap((burnAddress) =>
+        chainIds.map((chainId) => ({
+          address: envVars.VITE_TOKEN_CONTRACT_ADDRESS,
+          abi: L2NativeSuperchainERC20Abi,
+          functionName: 'balanceOf',
+          args: [burnAddress],
+          chainId,
+        })),
+      ),
+      allowFailure: false,
+    })
+
+    const offset = burnAddresses.findIndex((_, i) =>
+      balances
+        .slice(i * chainIds.length, (i + 1) * chainIds.length)
+        .every((balance) => balance === 0n),
+    )
+    if (offset !== -1) {
+      return {
+        index: fromIndex + offset,
+        secret: secrets[offset],
+        burnAddress: burnAddresses[offset],
+      }
+    }
+  }
+  throw new Error(`All ${MAX_BURN_INDEX} burn addresses are used`)
+}
+
+export async function sendBurnTransfer(
+  chainId: ChainId,
+  burn: PendingBurn,
+  amount: bigint,
+): Promise<Hash> {
+  await switchChain(config, { chainId })
+  return writeContract(config, {
+    address: envVars.VITE_TOKEN_CONTRACT_ADDRESS,
+    abi: L2NativeSuperchainERC20Abi,
+    functionName: 'transfer',
+    args: [burn.burnAddress, amount],
+    chainId,
+  })
+}
+
+/**
+ * Wait for the burn transfer and build the note pointing at its log
+ */
+export async function waitForBurn(
+  chainId: ChainId,
+  burn: PendingBurn,
+  amount: bigint,
+  hash: Hash,
+): Promise<WormholeNote> {
+  const receipt = await waitForTransactionReceipt(config, { hash, chainId })
+  if (receipt.status !== 'success') {
+    throw new Error('The transfer to the burn address reverted')
+  }
+
+  const burnTopic = pad(burn.burnAddress).toLowerCase()
+  const logIndex = receipt.logs.findIndex(
+    (log) =>
+      isAddressEqual(log.address, envVars.VITE_TOKEN_CONTRACT_ADDRESS) &&
+      log.topics[2]?.toLowerCase() === burnTopic,
+  )
+  if (logIndex === -1) {
+    throw new Error('The transfer receipt has no Transfer to the burn address')
+  }
+
+  return {
+    secret: burn.secret,
+    amount,
+    token: envVars.VITE_TOKEN_CONTRACT_ADDRESS,
+    sourceChainId: chainId,
+    blockNumber: receipt.blockNumber,
+    transactionIndex: receipt.transactionIndex,
+    logIndex,
+  }
+}
+
+/**
+ * The relayer that submits a mint and the fee it is paid out of the note
+ * amount, both bound into the witness
+ */
+export type RelayerQuote = {
+  relayer: Address
+  relayerFee: bigint
+}
+
+/**
+ * Fetch the block of the burn and build its witness in the proof worker.
+ * Without a relayer quote the mint is sent from a wallet and pays no fee.
+ */
+export async function buildBurnWitness(
+  note: WormholeNote,
+  recipient: Address,
+  quote: RelayerQuote | undefined,
+  options: ProofWorkerOptions = {},
+): Promise<WormholeWitness> {
+  const client = getPublicClient(config, {
+    chainId: note.sourceChainId as ChainId,
+  })
+  const { block, receipts } = await fetchWormholeBlockData({ client, note })
+  return buildWitnessInWorker(
+    { note, block, receipts, recipient, ...quote },
+    options,
+  )
+}
+
+// Undefined when no VITE_RELAYER_URL is set
+export const relayer = envVars.VITE_RELAYER_URL
+  ? createRelayerHttpClient(envVars.VITE_RELAYER_URL)
+  : undefined
+
+function getRelayer() {
+  if (!relayer) {
+    throw new Error('VITE_RELAYER_URL is not set')
+  }
+  return relayer
+}
+
+/**
+ * Ask the relayer its address and the fee it wants to mint a note on a chain,
+ * before both are bound into the witness
+ */
+export async function quoteRelayerFee(
+  chainId: ChainId,
+  note: WormholeNote,
+): Promise<RelayerQuote> {
+  const { address, chainIds, contractAddress, feePolicy } =
+    await getRelayer().getInfo()
+  if (!chainIds.includes(chainId) || !chainIds.includes(note.sourceChainId)) {
+    throw new Error(
+      `The relayer does not relay from chain ${note.sourceChainId} to chain ${chainId}`,
+    )
+  }
+  if (!isAddressEqual(contractAddress, envVars.VITE_TOKEN_CONTRACT_ADDRESS)) {
+    throw new Error(`The relayer mints on another contract, ${contractAddress}`)
+  }
+
+  const fee = requiredRelayerFee(feePolicy, note.amount)
+  if (fee > note.amount) {
+    throw new Error(`The relayer fee ${fee} exceeds the note amount`)
+  }
+  return { relayer: address, relayerFee: fee }
+}
+
+export async function submitPrivateMint(
+  chainId: ChainId,
+  { proof, publicSignals }: WormholeProof,
+): Promise<Hash> {
+  await switchChain(config, { chainId })
+  // The token verifies its own burns, privateMint checks the note's token
+  const hash = await writeContract(config, {
+    address: envVars.VITE_TOKEN_CONTRACT_ADDRESS,
+    abi: ZkWormholesERC20Abi,
+    functionName: 'privateMint',
+    args: [proof.pA, proof.pB, proof.pC, publicSignals],
+    chainId,
+  })
+
+  const receipt = await waitForTransactionReceipt(config, { hash, chainId })
+  if (receipt.status !== 'success') {
+    throw new Error('The mint transaction reverted')
+  }
+  return hash
+}
+
+/**
+ * Submit the mint through the relayer and wait for it, so that the recipient
+ * needs no gas and no wallet sends the mint
+ */
+export async function submitRelayedMint(
+  chainId: ChainId,
+  note: WormholeNote,
+  { proof, publicSignals }: WormholeProof,
+  signal?: AbortSignal,
+): Promise<Hash> {
+  const client = getRelayer()
+  const { id } = await client.relay({
+    chainId,
+    proof,
+    publicSignals,
+    note: { sourceChainId: note.sourceChainId, blockNumber: note.blockNumber },
+  })
+
+  const job = await client.waitForJob(id, { signal })
+  if (job.status === 'failed' || !job.hash) {
+    throw new Error(`The relayer could not mint: ${job.error ?? job.status}`)
+  }
+  return job.hash
+}
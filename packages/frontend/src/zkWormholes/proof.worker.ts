@@ -0,0 +1,50 @@
+import { Hex } from 'viem'
+import {
+  buildWormholeWitness,
+  deriveWormholeSecret,
+} from '@superchainerc20-starter/wormhole-sdk'
+import { prover } from '@/zkWormholes/prover'
+import type {
+  ProofWorkerProgress,
+  ProofWorkerRequest,
+  ProofWorkerResponse,
+} from '@/zkWormholes/proofWorker'
+
+const post = (response: ProofWorkerResponse) => self.postMessage(response)
+const report = (progress: ProofWorkerProgress) =>
+  post({ type: 'progress', progress })
+
+self.addEventListener(
+  'message',
+  async ({ data }: MessageEvent<ProofWorkerRequest>) => {
+    try {
+      if (data.type === 'secrets') {
+        const { signature, fromIndex = 0, count } = data.args
+        const secrets: Hex[] = []
+        while (secrets.length < count) {
+          report({ stage: 'secrets', progress: secrets.length / count })
+          secrets.push(
+            await deriveWormholeSecret({
+              signature,
+              index: fromIndex + secrets.length,
+            }),
+          )
+        }
+        post({ type: 'result', result: secrets })
+      } else if (data.type === 'witness') {
+        report({ stage: 'receiptTrie' })
+        post({ type: 'result', result: await buildWormholeWitness(data.args) })
+      } else {
+        report({ stage: 'proof' })
+        const proof = await prover.generateProof(data.witness)
+        report({ stage: 'verify' })
+        if (!(await prover.verify(proof))) {
+          throw new Error('The generated proof does not verify')
+        }
+        post({ type: 'result', result: proof })
+      }
+    } catch (error) {
+      post({ type: 'error', message: (error as Error).message })
+    }
+  },
+)
@@ -0,0 +1,150 @@
+import { Address, Hex } from 'viem'
+import {
+  RawRpcBlockHeader,
+  RawRpcReceipt,
+  WormholeNote,
+  WormholeProof,
+  WormholeWitness,
+} from '@superchainerc20-starter/wormhole-sdk'
+
+/**
+ * What the worker is busy with
+ */
+export type ProofWorkerStage = 'secrets' | 'receiptTrie' | 'proof' | 'verify'
+
+/**
+ * Progress of one worker job, reported as each stage starts
+ */
+export type ProofWorkerProgress = {
+  stage: ProofWorkerStage
+  // fraction of the stage done, from 0 to 1, only where it can be counted
+  progress?: number
+}
+
+/**
+ * Options of a worker job
+ */
+export type ProofWorkerOptions = {
+  // terminates the worker, the job then rejects with the abort reason
+  signal?: AbortSignal
+  onProgress?: (progress: ProofWorkerProgress) => void
+}
+
+/**
+ * Arguments for building a witness in the worker
+ */
+type BuildWitnessInWorkerArgs = {
+  note: WormholeNote
+  block: RawRpcBlockHeader
+  receipts: RawRpcReceipt[]
+  recipient: Address
+  relayerFee?: bigint
+  relayer?: Address
+}
+
+/**
+ * Arguments for deriving burn secrets in the worker
+ */
+type DeriveSecretsInWorkerArgs = {
+  // signature over WORMHOLE_SECRETS_TYPED_DATA
+  signature: Hex
+  fromIndex?: number
+  count: number
+}
+
+type ProofWorkerResult = Hex[] | WormholeWitness | WormholeProof
+
+export type ProofWorkerRequest =
+  | { type: 'secrets'; args: DeriveSecretsInWorkerArgs }
+  | { type: 'witness'; args: BuildWitnessInWorkerArgs }
+  | { type: 'proof'; witness: WormholeWitness }
+
+export type ProofWorkerResponse =
+  | { type: 'progress'; progress: ProofWorkerProgress }
+  | { type: 'result'; result: ProofWorkerResult }
+  | { type: 'error'; message: string }
+
+// One worker per job, so that aborting a job can terminate it mid-proof
+function runInWorker<T extends ProofWorkerResult>(
+  request: ProofWorkerRequest,
+  { signal, onProgress }: ProofWorkerOptions,
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted()
+
+    const worker = new Worker(new URL('./proof.worker.ts', import.meta.url), {
+      type: 'module',
+    })
+    const finish = () => {
+      worker.terminate()
+      signal?.removeEventListener('abort', abort)
+    }
+    const abort = () => {
+      finish()
+      reject(signal?.reason)
+    }
+    signal?.addEventListener('abort', abort)
+
+    worker.addEventListener(
+      'message',
+      ({ data }: MessageEvent<ProofWorkerResponse>) => {
+        if (data.type === 'progress') {
+          onProgress?.(data.progress)
+          return
+        }
+        finish()
+        if (data.type === 'error') {
+          reject(new Error(data.message))
+        } else {
+          resolve(data.result as T)
+        }
+      },
+    )
+    worker.addEventListener('error', (event) => {
+      finish()
+      reject(new Error(event.message || 'The proof worker failed'))
+    })
+    worker.postMessage(request)
+  })
+}
+
+/**
+ * Derive burn secrets off the main thread, each one is a proof-of-work search
+ * @param args - The signature, the first index and how many secrets
+ * @param options - Abort signal and progress callback
+ * @returns The burn secrets, in index order
+ */
+export function deriveSecretsInWorker(
+  args: DeriveSecretsInWorkerArgs,
+  options: ProofWorkerOptions = {},
+): Promise<Hex[]> {
+  return runInWorker({ type: 'secrets', args }, options)
+}
+
+/**
+ * Build the receipt trie and the witness of a burn off the main thread
+ * @param args - The note, its block, all the block receipts and who the mint
+ * pays
+ * @param options - Abort signal and progress callback
+ * @returns The circuit witness
+ */
+export function buildWitnessInWorker(
+  args: BuildWitnessInWorkerArgs,
+  options: ProofWorkerOptions = {},
+): Promise<WormholeWitness> {
+  return runInWorker({ type: 'witness', args }, options)
+}
+
+/**
+ * Prove a witness with the configured prover off the main thread, and check
+ * the proof before it is submitted
+ * @param witness - The circuit witness
+ * @param options - Abort signal and progress callback
+ * @returns The proof and its public signals
+ */
+export function proveInWorker(
+  witness: WormholeWitness,
+  options: ProofWorkerOptions = {},
+): Promise<WormholeProof> {
+  return runInWorker({ type: 'proof', witness }, options)
+}
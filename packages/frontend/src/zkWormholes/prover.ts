@@ -0,0 +1,20 @@
+import {
+  createProver,
+  ProverConfig,
+} from '@superchainerc20-starter/wormhole-sdk'
+import { envVars } from '@/envVars'
+
+function proverConfig(): ProverConfig {
+  if (envVars.VITE_PROVER === 'mock') return { backend: 'mock' }
+
+  const { VITE_PROVER_WASM_URL: wasm, VITE_PROVER_ZKEY_URL: zkey } = envVars
+  if (!wasm || !zkey) {
+    throw new Error(
+      'VITE_PROVER=groth16 needs VITE_PROVER_WASM_URL and VITE_PROVER_ZKEY_URL',
+    )
+  }
+  return { backend: 'groth16', wasm, zkey }
+}
+
+// The mock backend only passes a mock verifier on the destination chain
+export const prover = createProver(proverConfig())
@@ -0,0 +1,90 @@
+import { z } from 'zod'
+import type { RelayJob, RelayRequest } from './relayer'
+
+// Bigints travel as decimal or 0x-prefixed strings
+const zUint = z
+  .string()
+  .regex(/^(0x[0-9a-fA-F]+|[0-9]+)$/, 'Expected an unsigned integer string')
+  .transform((value) => BigInt(value))
+
+const zPair = z.tuple([zUint, zUint])
+
+const zRelayRequest = z.object({
+  chainId: z.number().int().positive(),
+  proof: z.object({
+    pA: zPair,
+    pB: z.tuple([zPair, zPair]),
+    pC: zPair,
+  }),
+  publicSignals: z.tuple([
+    zUint,
+    zUint,
+    zUint,
+    zUint,
+    zUint,
+    zUint,
+    zUint,
+    zUint,
+  ]),
+  note: z.object({
+    sourceChainId: z.number().int().positive(),
+    blockNumber: zUint,
+  }),
+})
+
+/**
+ * Parse the JSON body of a relay request
+ * @param body - The parsed JSON body
+ * @returns The relay request, with bigints
+ */
+export function parseRelayRequest(body: unknown): RelayRequest {
+  const result = zRelayRequest.safeParse(body)
+  if (!result.success) {
+    const [issue] = result.error.issues
+    throw new Error(
+      `Invalid relay request: ${issue.path.join('.') || 'body'}: ${issue.message}`,
+    )
+  }
+  return result.data
+}
+
+/**
+ * JSON form of a relay request, as clients send it
+ * @param request - The relay request
+ * @returns The request with bigints as decimal strings
+ */
+export function relayRequestToJson({
+  chainId,
+  proof,
+  publicSignals,
+  note,
+}: RelayRequest) {
+  const pair = ([a, b]: readonly [bigint, bigint]) =>
+    [a.toString(), b.toString()] as const
+  return {
+    chainId,
+    proof: {
+      pA: pair(proof.pA),
+      pB: [pair(proof.pB[0]), pair(proof.pB[1])],
+      pC: pair(proof.pC),
+    },
+    publicSignals: publicSignals.map(String),
+    note: {
+      sourceChainId: note.sourceChainId,
+      blockNumber: note.blockNumber.toString(),
+    },
+  }
+}
+
+/**
+ * JSON form of a relay job, as the status endpoint returns it
+ * @param job - The relay job
+ * @returns The job with bigints as decimal strings
+ */
+export function relayJobToJson(job: RelayJob) {
+  return {
+    ...job,
+    nullifier: job.nullifier.toString(),
+    relayerFee: job.relayerFee.toString(),
+  }
+}
@@ -0,0 +1,4 @@
+// The modules that do not need node, for browsers
+export * from './api'
+export * from './client'
+export * from './feePolicy'
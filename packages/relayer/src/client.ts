@@ -0,0 +1,114 @@
+import { Address } from 'viem'
+import { relayRequestToJson } from './api'
+import type { FeePolicy } from './feePolicy'
+import type { RelayJob, RelayRequest } from './relayer'
+
+/**
+ * What `GET /info` answers, so that clients can set the fee before proving
+ */
+export type RelayerInfo = {
+  address: Address
+  contractAddress: Address
+  chainIds: number[]
+  feePolicy: FeePolicy
+}
+
+/**
+ * Options for waiting for a relay job
+ */
+type WaitForRelayJobOptions = {
+  // milliseconds between two status requests, 1 second by default
+  pollingInterval?: number
+  signal?: AbortSignal
+}
+
+/**
+ * Client of a relayer served by `createRelayerServer`. It only uses fetch, so
+ * that browsers can submit mints through a relayer.
+ */
+export type RelayerHttpClient = {
+  getInfo: () => Promise<RelayerInfo>
+  // answers the queued job, rejects with the reason the relayer refused it
+  relay: (request: RelayRequest) => Promise<RelayJob>
+  getJob: (id: string) => Promise<RelayJob>
+  // polls the job until it is mined or failed
+  waitForJob: (
+    id: string,
+    options?: WaitForRelayJobOptions,
+  ) => Promise<RelayJob>
+}
+
+const DEFAULT_POLLING_INTERVAL = 1000
+
+type RelayJobJson = Omit<RelayJob, 'nullifier' | 'relayerFee'> & {
+  nullifier: string
+  relayerFee: string
+}
+
+const jobFromJson = (job: RelayJobJson): RelayJob => ({
+  ...job,
+  nullifier: BigInt(job.nullifier),
+  relayerFee: BigInt(job.relayerFee),
+})
+
+/**
+ * Create a client of the relayer at the given url
+ * @param url - Base url of the relayer, e.g. http://localhost:8547
+ * @returns The relayer client
+ */
+export function createRelayerHttpClient(url: string): RelayerHttpClient {
+  const baseUrl = url.replace(/\/+$/, '')
+
+  const call = async <T>(path: string, init?: RequestInit): Promise<T> => {
+    const response = await fetch(`${baseUrl}${path}`, init)
+    const body = (await response.json().catch(() => undefined)) as
+      | { error?: string }
+      | undefined
+    if (!response.ok) {
+      throw new Error(
+        body?.error ?? `Relayer answered ${response.status} to ${path}`,
+      )
+    }
+    return body as T
+  }
+
+  const getJob = async (id: string) =>
+    jobFromJson(await call<RelayJobJson>(`/jobs/${encodeURIComponent(id)}`))
+
+  return {
+    getInfo: async () => {
+      const info = await call<
+        Omit<RelayerInfo, 'feePolicy'> & {
+          feePolicy: { feeBps: string; minFee: string }
+        }
+      >('/info')
+      return {
+        ...info,
+        feePolicy: {
+          feeBps: BigInt(info.feePolicy.feeBps),
+          minFee: BigInt(info.feePolicy.minFee),
+        },
+      }
+    },
+    relay: async (request) =>
+      jobFromJson(
+        await call<RelayJobJson>('/relay', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify(relayRequestToJson(request)),
+        }),
+      ),
+    getJob,
+    waitForJob: async (
+      id,
+      { pollingInterval = DEFAULT_POLLING_INTERVAL, signal } = {},
+    ) => {
+      for (;;) {
+        signal?.throwIfAborted()
+        const job = await getJob(id)
+        if (job.status === 'mined' || job.status === 'failed') return job
+        await new Promise((resolve) => setTimeout(resolve, pollingInterval))
+      }
+    },
+  }
+}
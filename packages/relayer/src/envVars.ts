@@ -0,0 +1,81 @@
+import { parseEnv, z } from 'znv'
+import { Address, Hex, isAddress } from 'viem'
+
+// anvil account 9, funded by supersim and unused by the deploy scripts
+const DEFAULT_RELAYER_PRIVATE_KEY =
+  '0x2a871d0798f97d79848a013d4936a73bf4cc922c825d33c1cf7073dff6d409c6'
+
+const DEFAULT_RPC_URLS = '901=http://127.0.0.1:9545,902=http://127.0.0.1:9546'
+
+const zWithDefault = (defaultValue: string) =>
+  z
+    .string()
+    .default(defaultValue)
+    .transform((val) => (val.trim() !== '' ? val : defaultValue))
+
+// One chain of RELAYER_RPC_URLS, as a chainId=url pair
+const zRpcUrl = z.object({
+  chainId: z.coerce.number().int().positive(),
+  url: z.string().url(),
+})
+
+const zRpcUrls = z
+  .array(zRpcUrl)
+  .min(2, 'Expected the source and destination chains')
+  .refine(
+    (rpcUrls) =>
+      new Set(rpcUrls.map(({ chainId }) => chainId)).size === rpcUrls.length,
+    'Expected each chain id once',
+  )
+
+const zUint = z
+  .string()
+  .regex(/^[0-9]+$/, 'Expected an unsigned integer')
+  .transform(BigInt)
+
+const zPort = z.coerce.number().int().min(1).max(65535)
+
+/**
+ * Validate a transformed value with another schema, as znv does not handle
+ * zod pipelines
+ */
+const validateWith =
+  <T extends z.ZodTypeAny>(schema: T) =>
+  (val: unknown, ctx: z.RefinementCtx): z.output<T> => {
+    const result = schema.safeParse(val)
+    if (!result.success) {
+      result.error.issues.forEach((issue) => ctx.addIssue(issue))
+      return z.NEVER
+    }
+    return result.data
+  }
+
+export const envVars = parseEnv(process.env, {
+  RELAYER_PRIVATE_KEY: zWithDefault(DEFAULT_RELAYER_PRIVATE_KEY).refine(
+    (val): val is Hex => /^0x[0-9a-fA-F]{64}$/.test(val),
+    'Expected a 32 byte hex private key',
+  ),
+  RELAYER_CONTRACT_ADDRESS: z
+    .string()
+    .refine((val): val is Address => isAddress(val), 'Expected an address'),
+  // chainId=url pairs, source chains included
+  RELAYER_RPC_URLS: zWithDefault(DEFAULT_RPC_URLS)
+    .transform((val) =>
+      val.split(',').map((pair) => {
+        // urls may contain '=' in their query string
+        const separator = pair.indexOf('=')
+        return {
+          chainId: separator === -1 ? '' : pair.slice(0, separator).trim(),
+          url: pair.slice(separator + 1).trim(),
+        }
+      }),
+    )
+    .transform(validateWith(zRpcUrls)),
+  RELAYER_PORT: zWithDefault('8547').transform(validateWith(zPort)),
+  // 10 bps = 0.1% of the withdrawn amount
+  RELAYER_FEE_BPS: zWithDefault('10').transform(validateWith(zUint)),
+  RELAYER_MIN_FEE: zWithDefault('0').transform(validateWith(zUint)),
+  RELAYER_PROVER: z.enum(['mock', 'groth16']).default('mock'),
+  RELAYER_PROVER_WASM_PATH: z.string().optional(),
+  RELAYER_PROVER_ZKEY_PATH: z.string().optional(),
+})
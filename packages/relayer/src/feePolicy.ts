@@ -0,0 +1,50 @@
+/**
+ * Smallest relayer fee accepted for a mint, in token units. Both bounds apply,
+ * so that small mints still cover the gas.
+ */
+export type FeePolicy = {
+  // share of the withdrawn amount, in basis points
+  feeBps: bigint
+  minFee: bigint
+}
+
+const BPS = 10_000n
+
+/**
+ * Compute the fee a mint must set in its public signals to be relayed
+ * @param policy - The fee policy of the relayer
+ * @param withdrawAmount - The amount the proof withdraws
+ * @returns max(minFee, withdrawAmount * feeBps / 10000), rounded up
+ */
+export function requiredRelayerFee(
+  { feeBps, minFee }: FeePolicy,
+  withdrawAmount: bigint,
+): bigint {
+  const proportional = (withdrawAmount * feeBps + BPS - 1n) / BPS
+  return proportional > minFee ? proportional : minFee
+}
+
+/**
+ * Check the fee set in the public signals against the fee policy
+ * @param policy - The fee policy of the relayer
+ * @param param1 - The withdrawn amount and the relayer fee of the proof
+ */
+export function checkRelayerFee(
+  policy: FeePolicy,
+  {
+    withdrawAmount,
+    relayerFee,
+  }: { withdrawAmount: bigint; relayerFee: bigint },
+): void {
+  const required = requiredRelayerFee(policy, withdrawAmount)
+  if (relayerFee < required) {
+    throw new Error(
+      `Relayer fee ${relayerFee} is below the ${required} the fee policy requires`,
+    )
+  }
+  if (relayerFee > withdrawAmount) {
+    throw new Error(
+      `Relayer fee ${relayerFee} exceeds the withdrawn amount ${withdrawAmount}`,
+    )
+  }
+}
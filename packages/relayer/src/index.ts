@@ -0,0 +1,3 @@
+export * from './browser'
+export * from './relayer'
+export * from './server'
@@ -0,0 +1,63 @@
+import { createWalletClient, defineChain, http, publicActions } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import {
+  createProver,
+  ProverConfig,
+} from '@superchainerc20-starter/wormhole-sdk'
+import { envVars } from './envVars'
+import { createRelayer, RelayerClient } from './relayer'
+import { createRelayerServer } from './server'
+
+function proverConfig(): ProverConfig {
+  if (envVars.RELAYER_PROVER === 'mock') return { backend: 'mock' }
+
+  const { RELAYER_PROVER_WASM_PATH: wasm, RELAYER_PROVER_ZKEY_PATH: zkey } =
+    envVars
+  if (!wasm || !zkey) {
+    throw new Error(
+      'RELAYER_PROVER=groth16 needs RELAYER_PROVER_WASM_PATH and RELAYER_PROVER_ZKEY_PATH',
+    )
+  }
+  return { backend: 'groth16', wasm, zkey }
+}
+
+const account = privateKeyToAccount(envVars.RELAYER_PRIVATE_KEY)
+
+const clients: Record<number, RelayerClient> = Object.fromEntries(
+  envVars.RELAYER_RPC_URLS.map(({ chainId, url }) => [
+    chainId,
+    createWalletClient({
+      account,
+      chain: defineChain({
+        id: chainId,
+        name: `Chain ${chainId}`,
+        nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+        rpcUrls: { default: { http: [url] } },
+      }),
+      transport: http(url),
+    }).extend(publicActions),
+  ]),
+)
+
+const feePolicy = {
+  feeBps: envVars.RELAYER_FEE_BPS,
+  minFee: envVars.RELAYER_MIN_FEE,
+}
+
+const relayer = createRelayer({
+  contractAddress: envVars.RELAYER_CONTRACT_ADDRESS,
+  clients,
+  prover: createProver(proverConfig()),
+  feePolicy,
+})
+
+createRelayerServer(relayer, {
+  address: account.address,
+  contractAddress: envVars.RELAYER_CONTRACT_ADDRESS,
+  chainIds: Object.keys(clients).map(Number),
+  feePolicy,
+}).listen(envVars.RELAYER_PORT, () => {
+  console.log(
+    `Relayer ${account.address} listening on http://localhost:${envVars.RELAYER_PORT}`,
+  )
+})
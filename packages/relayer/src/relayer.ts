@@ -0,0 +1,283 @@
+import { randomUUID } from 'node:crypto'
+import {
+  Account,
+  Address,
+  BaseError,
+  Chain,
+  Hash,
+  hexToBigInt,
+  PublicActions,
+  Transport,
+  WalletClient,
+} from 'viem'
+import {
+  deriveReceiptFact,
+  Groth16Proof,
+  Prover,
+  WormholePublicSignalsArray,
+  ZkWormholesERC20Abi,
+} from '@superchainerc20-starter/wormhole-sdk'
+import { checkRelayerFee, FeePolicy } from './feePolicy'
+
+/**
+ * A mint to relay. The note metadata locates the burn block, so that the
+ * receipt fact can be checked without the note secret.
+ */
+export type RelayRequest = {
+  // destination chain of the mint
+  chainId: number
+  proof: Groth16Proof
+  publicSignals: WormholePublicSignalsArray
+  note: {
+    sourceChainId: number
+    blockNumber: bigint
+  }
+}
+
+export type RelayJobStatus = 'pending' | 'submitted' | 'mined' | 'failed'
+
+/**
+ * State of one relayed mint
+ */
+export type RelayJob = {
+  id: string
+  status: RelayJobStatus
+  chainId: number
+  nullifier: bigint
+  relayerFee: bigint
+  hash?: Hash
+  error?: string
+}
+
+/**
+ * Client of one chain, signing with the relayer key
+ */
+export type RelayerClient = WalletClient<Transport, Chain, Account> &
+  PublicActions<Transport, Chain, Account>
+
+/**
+ * Arguments for creating a relayer
+ */
+type CreateRelayerArgs = {
+  // the zk wormholes token, at the same address on every chain
+  contractAddress: Address
+  // by chain id, source chains included
+  clients: Record<number, RelayerClient>
+  prover: Prover
+  feePolicy: FeePolicy
+  // how long mined and failed jobs stay queryable, one hour by default
+  jobTtlMs?: number
+  // mined and failed jobs kept at most, the oldest are dropped first
+  maxFinishedJobs?: number
+}
+
+export type Relayer = {
+  // checks the request and queues the mint, rejects what would not mint
+  relay: (request: RelayRequest) => Promise<RelayJob>
+  getJob: (id: string) => RelayJob | undefined
+}
+
+// Public signal positions, see toPublicSignalsArray
+const RECEIPT_FACT = 0
+const TOKEN = 1
+const WITHDRAW_AMOUNT = 2
+const NULLIFIER = 4
+const RECIPIENT = 5
+const RELAYER_FEE = 6
+const RELAYER = 7
+
+const DEFAULT_JOB_TTL_MS = 60 * 60 * 1000
+const DEFAULT_MAX_FINISHED_JOBS = 10_000
+
+function errorMessage(error: unknown): string {
+  return error instanceof BaseError
+    ? error.shortMessage
+    : (error as Error).message
+}
+
+/**
+ * Create a relayer submitting mints from its own key, so that the recipient
+ * never needs gas on the destination chain. Jobs are kept in memory, finished
+ * ones until their TTL or the cap on finished jobs drops them.
+ * @param param0 - The contract, one client per chain, the prover backend,
+ * the fee policy and how long finished jobs are kept
+ * @returns The relayer
+ */
+export function createRelayer({
+  contractAddress,
+  clients,
+  prover,
+  feePolicy,
+  jobTtlMs = DEFAULT_JOB_TTL_MS,
+  maxFinishedJobs = DEFAULT_MAX_FINISHED_JOBS,
+}: CreateRelayerArgs): Relayer {
+  const jobs = new Map<string, RelayJob>()
+  // Ids of mined and failed jobs, oldest first
+  const finished: Array<{ id: string; at: number }> = []
+  // One mint in flight per chain, so that nonces are not reused
+  const queues = new Map<number, Promise<unknown>>()
+
+  const update = (id: string, patch: Partial<RelayJob>) =>
+    jobs.set(id, { ...jobs.get(id)!, ...patch })
+
+  // Pending and submitted jobs stay, there is at most one per unspent
+  // nullifier with a valid proof
+  const prune = () => {
+    const expired = Date.now() - jobTtlMs
+    while (
+      finished.length > 0 &&
+      (finished.length > maxFinishedJobs || finished[0].at <= expired)
+    ) {
+      jobs.delete(finished.shift()!.id)
+    }
+  }
+
+  const finish = (id: string, patch: Partial<RelayJob>) => {
+    update(id, patch)
+    finished.push({ id, at: Date.now() })
+    prune()
+  }
+
+  const clientOf = (chainId: number) => {
+    const client = clients[chainId]
+    if (!client) throw new Error(`Chain ${chainId} is not relayed`)
+    return client
+  }
+
+  const check = async ({
+    chainId,
+    proof,
+    publicSignals,
+    note,
+  }: RelayRequest) => {
+    const client = clientOf(chainId)
+    const sourceClient = clientOf(note.sourceChainId)
+    if (chainId === note.sourceChainId) {
+      throw new Error('The mint must be on another chain than the burn')
+    }
+
+    if (publicSignals[TOKEN] !== hexToBigInt(contractAddress)) {
+      throw new Error(`The proof does not mint ${contractAddress}`)
+    }
+    if (publicSignals[RECIPIENT] === 0n) {
+      throw new Error('The proof mints to the zero address')
+    }
+    // Only the relayer bound in the proof can submit it and take the fee
+    if (publicSignals[RELAYER] !== hexToBigInt(client.account.address)) {
+      throw new Error(
+        `The proof is not bound to relayer ${client.account.address}`,
+      )
+    }
+    checkRelayerFee(feePolicy, {
+      withdrawAmount: publicSignals[WITHDRAW_AMOUNT],
+      relayerFee: publicSignals[RELAYER_FEE],
+    })
+
+    const block = await sourceClient.getBlock({
+      blockNumber: note.blockNumber,
+    })
+    const receiptFact = deriveReceiptFact({
+      chainId: note.sourceChainId,
+      blockHash: block.hash,
+    })
+    if (publicSignals[RECEIPT_FACT] !== receiptFact) {
+      throw new Error(
+        `The proof is not for block ${note.blockNumber} of chain ${note.sourceChainId}`,
+      )
+    }
+
+    if (!(await prover.verify({ proof, publicSignals }))) {
+      throw new Error('The proof does not verify')
+    }
+
+    const nullifier = publicSignals[NULLIFIER]
+    const spent = await client.readContract({
+      address: contractAddress,
+      abi: ZkWormholesERC20Abi,
+      functionName: 'nullifiers',
+      args: [nullifier],
+    })
+    if (spent) {
+      throw new Error(`Nullifier ${nullifier} is already spent`)
+    }
+  }
+
+  // Runs right before the job is stored, with no await in between, so that
+  // two requests for one nullifier cannot both be accepted
+  const checkNotInFlight = ({ chainId, publicSignals }: RelayRequest) => {
+    const nullifier = publicSignals[NULLIFIER]
+    const inFlight = [...jobs.values()].some(
+      (job) =>
+        job.chainId === chainId &&
+        job.nullifier === nullifier &&
+        job.status !== 'failed',
+    )
+    if (inFlight) {
+      throw new Error(`Nullifier ${nullifier} is already being relayed`)
+    }
+  }
+
+  const submit = async (
+    job: RelayJob,
+    { proof, publicSignals }: RelayRequest,
+  ) => {
+    const client = clientOf(job.chainId)
+    const { request } = await client.simulateContract({
+      address: contractAddress,
+      abi: ZkWormholesERC20Abi,
+      functionName: 'privateMint',
+      args: [proof.pA, proof.pB, proof.pC, publicSignals],
+    })
+    const hash = await client.writeContract(request)
+    update(job.id, { status: 'submitted', hash })
+    return hash
+  }
+
+  const run = async (job: RelayJob, request: RelayRequest) => {
+    try {
+      const sent = (queues.get(job.chainId) ?? Promise.resolve())
+        .catch(() => {})
+        .then(() => submit(job, request))
+      queues.set(job.chainId, sent)
+
+      const receipt = await clientOf(job.chainId).waitForTransactionReceipt({
+        hash: await sent,
+      })
+      finish(job.id, {
+        status: receipt.status === 'success' ? 'mined' : 'failed',
+        error:
+          receipt.status === 'success'
+            ? undefined
+            : 'The mint transaction reverted',
+      })
+    } catch (error) {
+      finish(job.id, {
+        status: 'failed',
+        error: errorMessage(error),
+      })
+    }
+  }
+
+  return {
+    relay: async (request) => {
+      prune()
+      await check(request)
+      checkNotInFlight(request)
+
+      const job: RelayJob = {
+        id: randomUUID(),
+        status: 'pending',
+        chainId: request.chainId,
+        nullifier: request.publicSignals[NULLIFIER],
+        relayerFee: request.publicSignals[RELAYER_FEE],
+      }
+      jobs.set(job.id, job)
+      void run(job, request)
+      return job
+    },
+    getJob: (id) => {
+      prune()
+      return jobs.get(id)
+    },
+  }
+}
@@ -0,0 +1,104 @@
+import {
+  createServer,
+  IncomingMessage,
+  Server,
+  ServerResponse,
+} from 'node:http'
+import { BaseError } from 'viem'
+import { parseRelayRequest, relayJobToJson } from './api'
+import { RelayerInfo } from './client'
+import { Relayer } from './relayer'
+
+// Proofs and public signals are well under this
+const MAX_BODY_LENGTH = 64 * 1024
+
+// The frontend calls the relayer from its own origin
+const CORS_HEADERS = {
+  'access-control-allow-origin': '*',
+  'access-control-allow-headers': 'content-type',
+  'access-control-allow-methods': 'GET, POST',
+}
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'content-type': 'application/json', ...CORS_HEADERS })
+  res.end(JSON.stringify(body))
+}
+
+/**
+ * Failed calls to the chains are viem errors: the relayer could not check the
+ * request, it did not reject it. Anything else is a request it rejects.
+ */
+function relayError(error: unknown): { status: number; message: string } {
+  return error instanceof BaseError
+    ? { status: 502, message: error.shortMessage }
+    : { status: 400, message: (error as Error).message }
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  let body = ''
+  for await (const chunk of req) {
+    body += chunk
+    if (body.length > MAX_BODY_LENGTH) {
+      throw new Error('Request body is too large')
+    }
+  }
+  try {
+    return JSON.parse(body)
+  } catch {
+    throw new Error('Request body is not JSON')
+  }
+}
+
+/**
+ * Serve a relayer over HTTP, to any origin:
+ * - `GET /info`: relayer address, contract, chains and fee policy
+ * - `POST /relay`: queue a mint, answers the job with status 202, 400 if the
+ *   request is rejected, 502 if a chain could not be reached to check it
+ * - `GET /jobs/:id`: status of a job
+ * @param relayer - The relayer
+ * @param info - What `GET /info` returns
+ * @returns The server, not listening yet
+ */
+export function createRelayerServer(
+  relayer: Relayer,
+  info: RelayerInfo,
+): Server {
+  return createServer(async (req, res) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost')
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, CORS_HEADERS)
+      return res.end()
+    }
+
+    if (req.method === 'GET' && pathname === '/info') {
+      return send(res, 200, {
+        ...info,
+        feePolicy: {
+          feeBps: info.feePolicy.feeBps.toString(),
+          minFee: info.feePolicy.minFee.toString(),
+        },
+      })
+    }
+
+    if (req.method === 'POST' && pathname === '/relay') {
+      try {
+        const job = await relayer.relay(parseRelayRequest(await readJson(req)))
+        return send(res, 202, relayJobToJson(job))
+      } catch (error) {
+        const { status, message } = relayError(error)
+        return send(res, status, { error: message })
+      }
+    }
+
+    const [, route, id] = pathname.split('/')
+    if (req.method === 'GET' && route === 'jobs' && id) {
+      const job = relayer.getJob(id)
+      return job
+        ? send(res, 200, relayJobToJson(job))
+        : send(res, 404, { error: `Job ${id} not found` })
+    }
+
+    send(res, 404, { error: `No route for ${req.method} ${pathname}` })
+  })
+}
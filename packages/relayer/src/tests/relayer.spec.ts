@@ -0,0 +1,442 @@
+import { AddressInfo } from 'node:net'
+import { describe, expect, it, vi } from 'vitest'
+import {
+  createWalletClient,
+  custom,
+  decodeFunctionData,
+  defineChain,
+  encodeFunctionResult,
+  Hex,
+  hexToBigInt,
+  numberToHex,
+  pad,
+  publicActions,
+} from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import {
+  deriveReceiptFact,
+  Prover,
+  toPublicSignalsArray,
+  WormholePublicSignals,
+  ZkWormholesERC20Abi,
+} from '@superchainerc20-starter/wormhole-sdk'
+import { relayJobToJson, relayRequestToJson } from '../api'
+import { createRelayerHttpClient } from '../client'
+import { checkRelayerFee, requiredRelayerFee } from '../feePolicy'
+import { createRelayer, RelayerClient, RelayRequest } from '../relayer'
+import { createRelayerServer } from '../server'
+
+// anvil's second dev account
+const account = privateKeyToAccount(
+  '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d',
+)
+const contractAddress = '0x5FbDB2315678afecb367f032d93F642f64180aa3'
+const recipient = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8'
+const feePolicy = { feeBps: 10n, minFee: 10n ** 15n }
+const sourceBlockHash = pad('0xbb', { size: 32 })
+const mintHash = pad('0xcc', { size: 32 })
+
+// Accepts the proofs whose first element is 1
+const prover: Prover = {
+  generateProof: async () => {
+    throw new Error('Not used by the relayer')
+  },
+  verify: async ({ proof }) => proof.pA[0] === 1n,
+}
+
+/**
+ * Client of a chain that knows one block, one spent nullifier, and mines
+ * every transaction it is sent, or that fails every call when unreachable
+ */
+function mockClient(
+  chainId: number,
+  sent: Hex[],
+  { unreachable = false } = {},
+): RelayerClient {
+  const block = {
+    number: '0x10',
+    hash: sourceBlockHash,
+    parentHash: pad('0x0', { size: 32 }),
+    timestamp: '0x1',
+    baseFeePerGas: '0x1',
+    gasLimit: '0x1c9c380',
+    gasUsed: '0x0',
+    transactions: [],
+  }
+
+  return createWalletClient({
+    account,
+    chain: defineChain({
+      id: chainId,
+      name: `Chain ${chainId}`,
+      nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+      rpcUrls: { default: { http: [] } },
+    }),
+    pollingInterval: 10,
+    transport: custom(
+      {
+        request: async ({ method, params }) => {
+          if (unreachable) throw new Error('connect ECONNREFUSED')
+          switch (method) {
+            case 'eth_chainId':
+              return numberToHex(chainId)
+            case 'eth_blockNumber':
+              return block.number
+            case 'eth_getBlockByNumber':
+              return block
+            case 'eth_call': {
+              const { functionName, args } = decodeFunctionData({
+                abi: ZkWormholesERC20Abi,
+                data: params[0].data,
+              })
+              if (functionName === 'nullifiers') {
+                return encodeFunctionResult({
+                  abi: ZkWormholesERC20Abi,
+                  functionName,
+                  result: args[0] === 666n,
+                })
+              }
+              return '0x'
+            }
+            case 'eth_getTransactionCount':
+              return numberToHex(sent.length)
+            case 'eth_estimateGas':
+              return '0x30000'
+            case 'eth_maxPriorityFeePerGas':
+            case 'eth_gasPrice':
+              return '0x1'
+            case 'eth_sendRawTransaction':
+              sent.push(params[0])
+              return mintHash
+            case 'eth_getTransactionByHash':
+              return {
+                hash: mintHash,
+                blockHash: block.hash,
+                blockNumber: block.number,
+                transactionIndex: '0x0',
+                from: account.address,
+                to: contractAddress,
+                nonce: '0x0',
+                input: '0x',
+                value: '0x0',
+                gas: '0x30000',
+                maxFeePerGas: '0x2',
+                maxPriorityFeePerGas: '0x1',
+                chainId: numberToHex(chainId),
+                type: '0x2',
+                r: '0x1',
+                s: '0x1',
+                yParity: '0x0',
+              }
+            case 'eth_getTransactionReceipt':
+              return {
+                transactionHash: mintHash,
+                transactionIndex: '0x0',
+                blockHash: block.hash,
+                blockNumber: block.number,
+                from: account.address,
+                to: contractAddress,
+                cumulativeGasUsed: '0x30000',
+                gasUsed: '0x30000',
+                effectiveGasPrice: '0x1',
+                contractAddress: null,
+                logs: [],
+                logsBloom: pad('0x0', { size: 256 }),
+                status: '0x1',
+                type: '0x2',
+              }
+            default:
+              throw new Error(`Unexpected ${method}`)
+          }
+        },
+      },
+      { retryCount: 0 },
+    ),
+  }).extend(publicActions)
+}
+
+function relayRequest(
+  patch: Partial<WormholePublicSignals> = {},
+): RelayRequest {
+  const signals: WormholePublicSignals = {
+    receiptFact: deriveReceiptFact({
+      chainId: 901,
+      blockHash: sourceBlockHash,
+    }),
+    token: hexToBigInt(contractAddress),
+    withdrawAmount: 10n ** 18n,
+    changeCommitment: 0n,
+    nullifier: 42n,
+    recipient: hexToBigInt(recipient),
+    relayerFee: 10n ** 15n,
+    relayer: hexToBigInt(account.address),
+    ...patch,
+  }
+  return {
+    chainId: 902,
+    proof: {
+      pA: [1n, 2n],
+      pB: [
+        [3n, 4n],
+        [5n, 6n],
+      ],
+      pC: [7n, 8n],
+    },
+    publicSignals: toPublicSignalsArray(signals),
+    note: { sourceChainId: 901, blockNumber: 16n },
+  }
+}
+
+function setup(
+  retention: { jobTtlMs?: number; maxFinishedJobs?: number } = {},
+) {
+  const sent: Hex[] = []
+  const relayer = createRelayer({
+    contractAddress,
+    clients: { 901: mockClient(901, []), 902: mockClient(902, sent) },
+    prover,
+    feePolicy,
+    ...retention,
+  })
+  return { relayer, sent }
+}
+
+type RelayJobJson = ReturnType<typeof relayJobToJson>
+
+async function waitForJob(
+  getJob: () => Promise<RelayJobJson>,
+): Promise<RelayJobJson> {
+  for (;;) {
+    const job = await getJob()
+    if (job.status === 'mined' || job.status === 'failed') return job
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+}
+
+describe('relayer', () => {
+  it('should require the fee of its policy', () => {
+    expect(requiredRelayerFee(feePolicy, 10n ** 18n)).toBe(10n ** 15n)
+    // 0.1% of 2 ether, and the minimum for small amounts
+    expect(requiredRelayerFee(feePolicy, 2n * 10n ** 18n)).toBe(2n * 10n ** 15n)
+    expect(requiredRelayerFee(feePolicy, 1000n)).toBe(10n ** 15n)
+    // rounded up
+    expect(requiredRelayerFee({ feeBps: 1n, minFee: 0n }, 10001n)).toBe(2n)
+
+    expect(() =>
+      checkRelayerFee(feePolicy, {
+        withdrawAmount: 10n ** 18n,
+        relayerFee: 10n ** 15n - 1n,
+      }),
+    ).toThrow(/below/)
+    expect(() =>
+      checkRelayerFee(feePolicy, {
+        withdrawAmount: 10n ** 14n,
+        relayerFee: 10n ** 15n,
+      }),
+    ).toThrow(/exceeds the withdrawn amount/)
+  })
+
+  it('should submit a valid mint and report its status over HTTP', async () => {
+    const { relayer, sent } = setup()
+    const server = createRelayerServer(relayer, {
+      address: account.address,
+      contractAddress,
+      chainIds: [901, 902],
+      feePolicy,
+    }).listen(0)
+    const { port } = server.address() as AddressInfo
+    const url = `http://127.0.0.1:${port}`
+
+    try {
+      const info = (await (await fetch(`${url}/info`)).json()) as {
+        feePolicy: unknown
+      }
+      expect(info.feePolicy).toEqual({
+        feeBps: '10',
+        minFee: '1000000000000000',
+      })
+
+      const response = await fetch(`${url}/relay`, {
+        method: 'POST',
+        body: JSON.stringify(relayRequestToJson(relayRequest())),
+      })
+      expect(response.status).toBe(202)
+      const { id, status } = (await response.json()) as RelayJobJson
+      expect(status).toBe('pending')
+
+      const job = await waitForJob(
+        async () =>
+          (await fetch(`${url}/jobs/${id}`)).json() as Promise<RelayJobJson>,
+      )
+      expect(job).toMatchObject({
+        status: 'mined',
+        hash: mintHash,
+        nullifier: '42',
+        relayerFee: '1000000000000000',
+      })
+      expect(sent).toHaveLength(1)
+
+      expect((await fetch(`${url}/jobs/unknown`)).status).toBe(404)
+      const invalid = await fetch(`${url}/relay`, {
+        method: 'POST',
+        body: JSON.stringify({ chainId: 902 }),
+      })
+      expect(invalid.status).toBe(400)
+      expect(((await invalid.json()) as { error: string }).error).toMatch(
+        /Invalid relay request/,
+      )
+    } finally {
+      server.close()
+    }
+  })
+
+  it('should relay through the HTTP client, from any origin', async () => {
+    const { relayer, sent } = setup()
+    const server = createRelayerServer(relayer, {
+      address: account.address,
+      contractAddress,
+      chainIds: [901, 902],
+      feePolicy,
+    }).listen(0)
+    const { port } = server.address() as AddressInfo
+    const url = `http://127.0.0.1:${port}`
+    const client = createRelayerHttpClient(`${url}/`)
+
+    try {
+      const preflight = await fetch(`${url}/relay`, { method: 'OPTIONS' })
+      expect(preflight.status).toBe(204)
+      expect(preflight.headers.get('access-control-allow-origin')).toBe('*')
+
+      expect(await client.getInfo()).toEqual({
+        address: account.address,
+        contractAddress,
+        chainIds: [901, 902],
+        feePolicy,
+      })
+
+      const { id } = await client.relay(relayRequest())
+      expect(
+        await client.waitForJob(id, { pollingInterval: 10 }),
+      ).toMatchObject({
+        status: 'mined',
+        hash: mintHash,
+        nullifier: 42n,
+        relayerFee: 10n ** 15n,
+      })
+      expect(sent).toHaveLength(1)
+
+      await expect(client.relay(relayRequest())).rejects.toThrow(/already/)
+      await expect(client.getJob('unknown')).rejects.toThrow(
+        'Job unknown not found',
+      )
+    } finally {
+      server.close()
+    }
+  })
+
+  it('should answer 502 when a chain to check the request is unreachable', async () => {
+    const relayer = createRelayer({
+      contractAddress,
+      clients: {
+        901: mockClient(901, [], { unreachable: true }),
+        902: mockClient(902, []),
+      },
+      prover,
+      feePolicy,
+    })
+    const server = createRelayerServer(relayer, {
+      address: account.address,
+      contractAddress,
+      chainIds: [901, 902],
+      feePolicy,
+    }).listen(0)
+    const { port } = server.address() as AddressInfo
+    const url = `http://127.0.0.1:${port}`
+
+    try {
+      const response = await fetch(`${url}/relay`, {
+        method: 'POST',
+        body: JSON.stringify(relayRequestToJson(relayRequest())),
+      })
+      expect(response.status).toBe(502)
+
+      const rejected = await fetch(`${url}/relay`, {
+        method: 'POST',
+        body: JSON.stringify(
+          relayRequestToJson(relayRequest({ recipient: 0n })),
+        ),
+      })
+      expect(rejected.status).toBe(400)
+      expect(((await rejected.json()) as { error: string }).error).toMatch(
+        /zero address/,
+      )
+    } finally {
+      server.close()
+    }
+  })
+
+  it('should reject mints it would not be paid for or that cannot mint', async () => {
+    const { relayer, sent } = setup()
+
+    await expect(
+      relayer.relay(relayRequest({ relayerFee: 10n ** 14n })),
+    ).rejects.toThrow(/below/)
+    await expect(relayer.relay(relayRequest({ token: 1n }))).rejects.toThrow(
+      /does not mint/,
+    )
+    await expect(
+      relayer.relay(
+        relayRequest({
+          relayer: hexToBigInt('0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC'),
+        }),
+      ),
+    ).rejects.toThrow(/not bound to relayer/)
+    await expect(
+      relayer.relay(relayRequest({ receiptFact: 1n })),
+    ).rejects.toThrow(/not for block 16 of chain 901/)
+    await expect(
+      relayer.relay(relayRequest({ nullifier: 666n })),
+    ).rejects.toThrow(/already spent/)
+    await expect(
+      relayer.relay({ ...relayRequest(), chainId: 903 }),
+    ).rejects.toThrow(/not relayed/)
+
+    const request = relayRequest()
+    await expect(
+      relayer.relay({
+        ...request,
+        proof: { ...request.proof, pA: [2n, 2n] },
+      }),
+    ).rejects.toThrow(/does not verify/)
+
+    // The same nullifier cannot be queued twice
+    await relayer.relay(request)
+    await expect(relayer.relay(request)).rejects.toThrow(
+      /already being relayed/,
+    )
+    expect(sent.length).toBeLessThanOrEqual(1)
+  })
+
+  it('should forget finished jobs past their TTL or the cap', async () => {
+    const { relayer } = setup({ jobTtlMs: 60_000, maxFinishedJobs: 1 })
+    const relayed = async (nullifier: bigint) => {
+      const { id } = await relayer.relay(relayRequest({ nullifier }))
+      await waitForJob(async () => relayJobToJson(relayer.getJob(id)!))
+      return id
+    }
+
+    const first = await relayed(42n)
+    const second = await relayed(43n)
+    // Only the most recent finished job is kept
+    expect(relayer.getJob(first)).toBeUndefined()
+    expect(relayer.getJob(second)?.status).toBe('mined')
+
+    const now = Date.now()
+    vi.spyOn(Date, 'now').mockReturnValue(now + 60_000)
+    try {
+      expect(relayer.getJob(second)).toBeUndefined()
+    } finally {
+      vi.restoreAllMocks()
+    }
+  })
+})
@@ -0,0 +1,95 @@
+import { writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { parseArgs } from 'node:util'
+import { createPublicClient, Hex, http, numberToHex } from 'viem'
+import { getBlockReceiptsRaw } from '../src/blockReceipts'
+import { getBlockTransactionsRaw } from '../src/blockTransactions'
+import {
+  diagnoseReceiptsRoot,
+  formatReceiptsRootDiagnostics,
+} from '../src/receiptsRootDiagnostics'
+import { FIXTURES_DIR, ReceiptTrieFixture } from '../src/tests/fixtures'
+import { buildTransactionTrie } from '../src/transactionTrieProof'
+
+const USAGE = `Usage: pnpm record:fixture --rpc-url <url> [--block <number|latest>] [--name <name>] [--description <text>]
+
+Fetches a block header with all its transactions and receipts and writes them to
+src/tests/fixtures/<name>.json once they rebuild the block's transactionsRoot and
+receiptsRoot.`
+
+const { values } = parseArgs({
+  options: {
+    'rpc-url': { type: 'string' },
+    block: { type: 'string', default: 'latest' },
+    name: { type: 'string' },
+    description: { type: 'string' },
+  },
+})
+
+const rpcUrl = values['rpc-url']
+if (!rpcUrl) {
+  console.error(USAGE)
+  process.exit(1)
+}
+
+const client = createPublicClient({ transport: http(rpcUrl) })
+
+const chainId = await client.getChainId()
+const blockTag =
+  values.block === 'latest' ? 'latest' : numberToHex(BigInt(values.block!))
+
+// Raw header as returned by the node, so that every fork field is kept
+const block = await client.request<{
+  Parameters: [Hex | 'latest', boolean]
+  ReturnType: ReceiptTrieFixture['block'] | null
+}>({
+  method: 'eth_getBlockByNumber',
+  params: [blockTag, false],
+})
+if (!block) {
+  throw new Error(`Block ${values.block} not found on chain ${chainId}`)
+}
+
+const blockNumber = BigInt(block.number)
+const transactions = await getBlockTransactionsRaw(client, blockNumber)
+const receipts = await getBlockReceiptsRaw(client, blockNumber, {
+  onFallback: (failed, next, error) =>
+    console.warn(`${failed} failed, trying ${next}:`, error),
+})
+
+// A fixture is only useful if it is known to be right
+const diagnostics = await diagnoseReceiptsRoot({
+  receipts,
+  expectedRoot: block.receiptsRoot,
+})
+if (!diagnostics.matches) {
+  console.error(formatReceiptsRootDiagnostics(diagnostics))
+  process.exit(1)
+}
+const { rootHash: transactionsRoot } = await buildTransactionTrie({
+  transactions,
+  targetTxIndex: '0x0',
+})
+if (transactionsRoot !== block.transactionsRoot) {
+  console.error(
+    `Transactions rebuild ${transactionsRoot}, not the transactionsRoot ${block.transactionsRoot}`,
+  )
+  process.exit(1)
+}
+
+const name = values.name ?? `chain-${chainId}-block-${blockNumber}`
+const fixture: ReceiptTrieFixture = {
+  description:
+    values.description ??
+    `Block ${blockNumber} of chain ${chainId} with ${receipts.length} receipts`,
+  chainId,
+  block,
+  transactions,
+  receipts,
+}
+
+const path = join(FIXTURES_DIR, `${name}.json`)
+await writeFile(path, `${JSON.stringify(fixture, null, 2)}\n`)
+
+const types = [...new Set(receipts.map(({ type }) => type))].join(', ')
+console.log(`Wrote ${path} (receipt types: ${types})`)
@@ -0,0 +1,60 @@
+export const ZkWormholesERC20Abi = [
+  {
+    type: 'function',
+    name: 'nullifiers',
+    inputs: [{ name: '', type: 'uint256', internalType: 'uint256' }],
+    outputs: [{ name: '', type: 'bool', internalType: 'bool' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'privateMint',
+    inputs: [
+      { name: '_pA', type: 'uint256[2]', internalType: 'uint256[2]' },
+      { name: '_pB', type: 'uint256[2][2]', internalType: 'uint256[2][2]' },
+      { name: '_pC', type: 'uint256[2]', internalType: 'uint256[2]' },
+      { name: '_pubSignals', type: 'uint256[8]', internalType: 'uint256[8]' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'verifier',
+    inputs: [],
+    outputs: [
+      {
+        name: '',
+        type: 'address',
+        internalType: 'contract IWormholeVerifier',
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'event',
+    name: 'PrivateMint',
+    inputs: [
+      { name: 'to', type: 'address', indexed: true, internalType: 'address' },
+      {
+        name: 'amount',
+        type: 'uint256',
+        indexed: false,
+        internalType: 'uint256',
+      },
+      {
+        name: 'nullifier',
+        type: 'uint256',
+        indexed: false,
+        internalType: 'uint256',
+      },
+    ],
+    anonymous: false,
+  },
+  { type: 'error', name: 'InvalidProof', inputs: [] },
+  { type: 'error', name: 'InvalidRecipient', inputs: [] },
+  { type: 'error', name: 'InvalidRelayer', inputs: [] },
+  { type: 'error', name: 'InvalidToken', inputs: [] },
+  { type: 'error', name: 'NullifierAlreadyUsed', inputs: [] },
+  { type: 'error', name: 'RelayerFeeExceedsAmount', inputs: [] },
+] as const
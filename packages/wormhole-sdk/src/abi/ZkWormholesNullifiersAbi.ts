@@ -0,0 +1,9 @@
+export const ZkWormholesNullifiersAbi = [
+  {
+    type: 'function',
+    name: 'nullifiers',
+    inputs: [{ name: '', type: 'uint256', internalType: 'uint256' }],
+    outputs: [{ name: '', type: 'bool', internalType: 'bool' }],
+    stateMutability: 'view',
+  },
+] as const
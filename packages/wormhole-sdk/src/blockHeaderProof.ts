@@ -0,0 +1,229 @@
+import { RLP } from '@ethereumjs/rlp'
+import { bytesToHex, Hex, hexToBytes, keccak256 } from 'viem'
+
+/**
+ * Raw block header format from eth_getBlockByNumber / eth_getBlockByHash
+ * Fork-specific fields are optional and only present once the fork is active
+ */
+export type RawRpcBlockHeader = {
+  hash: Hex
+  parentHash: Hex
+  sha3Uncles: Hex
+  miner: Hex
+  stateRoot: Hex
+  transactionsRoot: Hex
+  receiptsRoot: Hex
+  logsBloom: Hex
+  difficulty: Hex
+  number: Hex
+  gasLimit: Hex
+  gasUsed: Hex
+  timestamp: Hex
+  extraData: Hex
+  mixHash: Hex
+  nonce: Hex
+  baseFeePerGas?: Hex // London
+  withdrawalsRoot?: Hex // Shanghai (Canyon on OP Stack)
+  blobGasUsed?: Hex // Cancun (Ecotone on OP Stack)
+  excessBlobGas?: Hex // Cancun (Ecotone on OP Stack)
+  parentBeaconBlockRoot?: Hex // Cancun (Ecotone on OP Stack)
+  requestsHash?: Hex // Prague (Isthmus on OP Stack)
+}
+
+/**
+ * Return type for building a block header proof
+ */
+type BuildBlockHeaderProofReturn = {
+  blockHash: Hex
+  headerRlp: Hex
+  receiptsRoot: Hex
+  // byte offset of the 32 receiptsRoot bytes inside headerRlp
+  receiptsRootOffset: number
+  stateRoot: Hex
+  // byte offset of the 32 stateRoot bytes inside headerRlp, for proofs of
+  // account state instead of receipts
+  stateRootOffset: number
+}
+
+/**
+ * Arguments for verifying a block header proof
+ */
+type VerifyBlockHeaderProofArgs = {
+  headerRlp: Hex
+  receiptsRootOffset: number
+  blockHash: Hex
+  rootHash: Hex
+}
+
+// Positions of the roots in the header field list
+const STATE_ROOT_FIELD_INDEX = 3
+const RECEIPTS_ROOT_FIELD_INDEX = 5
+
+/**
+ * Optional header fields in fork order. Each fork appends to the header, so a
+ * field can only be present if every field before it is too.
+ */
+const FORK_FIELDS = [
+  ['baseFeePerGas', 'quantity'],
+  ['withdrawalsRoot', 'data'],
+  ['blobGasUsed', 'quantity'],
+  ['excessBlobGas', 'quantity'],
+  ['parentBeaconBlockRoot', 'data'],
+  ['requestsHash', 'data'],
+] as const
+
+/**
+ * List the header fields in their RLP order
+ */
+function headerFields(header: RawRpcBlockHeader): Array<Hex | bigint> {
+  const fields: Array<Hex | bigint> = [
+    header.parentHash,
+    header.sha3Uncles,
+    header.miner,
+    header.stateRoot,
+    header.transactionsRoot,
+    header.receiptsRoot,
+    header.logsBloom,
+    // quantities go through BigInt so that zero encodes as the empty string
+    BigInt(header.difficulty),
+    BigInt(header.number),
+    BigInt(header.gasLimit),
+    BigInt(header.gasUsed),
+    BigInt(header.timestamp),
+    header.extraData,
+    header.mixHash,
+    header.nonce,
+  ]
+
+  let missingField: string | undefined
+  for (const [name, kind] of FORK_FIELDS) {
+    const value = header[name]
+    // some RPCs return null instead of omitting fields of inactive forks
+    if (!value) {
+      missingField ??= name
+      continue
+    }
+    if (missingField) {
+      throw new Error(
+        `Invalid block header: ${name} is set but ${missingField} is missing`,
+      )
+    }
+    fields.push(kind === 'quantity' ? BigInt(value) : value)
+  }
+
+  return fields
+}
+
+/**
+ * Locate the 32 bytes of a root field inside an RLP-encoded header
+ */
+function findRootOffset(
+  headerRlp: Uint8Array,
+  fieldIndex = RECEIPTS_ROOT_FIELD_INDEX,
+): number {
+  const fields = RLP.decode(headerRlp)
+  if (!Array.isArray(fields) || fields.length <= RECEIPTS_ROOT_FIELD_INDEX) {
+    throw new Error('Invalid block header: not an RLP list of header fields')
+  }
+
+  // The list prefix is whatever the encoded header has on top of its items
+  const encodedItems = fields.map((field) => RLP.encode(field))
+  const itemsLength = encodedItems.reduce((sum, item) => sum + item.length, 0)
+  const listPrefixLength = headerRlp.length - itemsLength
+
+  const rootItemOffset = encodedItems
+    .slice(0, fieldIndex)
+    .reduce((offset, item) => offset + item.length, listPrefixLength)
+
+  // Skip the single 0xa0 string prefix of the 32 byte root
+  return rootItemOffset + 1
+}
+
+/**
+ * RLP-encode a block header from RPC data
+ * @param header - The block, as returned by eth_getBlockByNumber
+ * @returns The RLP-encoded header, whose keccak256 is the block hash
+ */
+export function encodeBlockHeader(header: RawRpcBlockHeader): Uint8Array {
+  return RLP.encode(headerFields(header))
+}
+
+/**
+ * Build a proof that links a block's receiptsRoot and stateRoot to its block
+ * hash.
+ * @param header - The block, as returned by eth_getBlockByNumber
+ * @returns The header RLP and the positions of both roots inside it
+ */
+export function buildBlockHeaderProof(
+  header: RawRpcBlockHeader,
+): BuildBlockHeaderProofReturn {
+  const fields = headerFields(header)
+  const encoded = RLP.encode(fields)
+
+  const blockHash = keccak256(encoded)
+  if (blockHash !== header.hash.toLowerCase()) {
+    throw new Error(
+      `Block header hash ${blockHash} does not match block hash ${header.hash}`,
+    )
+  }
+
+  const receiptsRootOffset = findRootOffset(encoded)
+  const receiptsRoot = bytesToHex(
+    encoded.subarray(receiptsRootOffset, receiptsRootOffset + 32),
+  )
+  if (receiptsRoot !== header.receiptsRoot.toLowerCase()) {
+    throw new Error(
+      `Block header receiptsRoot at offset ${receiptsRootOffset} does not match ${header.receiptsRoot}`,
+    )
+  }
+
+  const stateRootOffset = findRootOffset(encoded, STATE_ROOT_FIELD_INDEX)
+  const stateRoot = bytesToHex(
+    encoded.subarray(stateRootOffset, stateRootOffset + 32),
+  )
+  if (stateRoot !== header.stateRoot.toLowerCase()) {
+    throw new Error(
+      `Block header stateRoot at offset ${stateRootOffset} does not match ${header.stateRoot}`,
+    )
+  }
+
+  return {
+    blockHash,
+    headerRlp: bytesToHex(encoded),
+    receiptsRoot,
+    receiptsRootOffset,
+    stateRoot,
+    stateRootOffset,
+  }
+}
+
+/**
+ * Check that a receipt trie root is committed to by a trusted block hash
+ * @param param0 - The header proof, the trusted block hash and the root to check
+ * @returns Whether the header hashes to blockHash and holds rootHash as its
+ * receiptsRoot at receiptsRootOffset
+ */
+export function verifyBlockHeaderProof({
+  headerRlp,
+  receiptsRootOffset,
+  blockHash,
+  rootHash,
+}: VerifyBlockHeaderProofArgs): boolean {
+  if (keccak256(headerRlp) !== blockHash.toLowerCase()) return false
+
+  const header = hexToBytes(headerRlp)
+  // Re-derive the offset so a proof can't point at some other 32 bytes. A
+  // header that doesn't decode is a bad proof, not an error of the caller.
+  let expectedOffset: number
+  try {
+    expectedOffset = findRootOffset(header)
+  } catch {
+    return false
+  }
+  if (expectedOffset !== receiptsRootOffset) return false
+
+  const receiptsRoot = bytesToHex(
+    header.subarray(receiptsRootOffset, receiptsRootOffset + 32),
+  )
+  return receiptsRoot === rootHash.toLowerCase()
+}
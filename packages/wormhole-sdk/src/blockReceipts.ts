@@ -0,0 +1,200 @@
+import { Chain, Client, Hash, Hex, numberToHex, Transport } from 'viem'
+import { getBlock } from 'viem/actions'
+import { RawRpcReceipt } from './receiptTrieProof'
+import { decodeReceipt } from './receiptDecoder'
+
+/**
+ * RPC method a strategy of `getBlockReceiptsRaw` fetches the receipts with
+ */
+export type BlockReceiptsMethod =
+  | 'eth_getBlockReceipts'
+  | 'debug_getRawReceipts'
+  | 'eth_getTransactionReceipt'
+
+/**
+ * Options for fetching raw block receipts
+ */
+type GetBlockReceiptsRawOptions = {
+  // maximum number of eth_getTransactionReceipt requests in flight
+  concurrency?: number
+  // called when a strategy fails, before falling back to the next one
+  onFallback?: (
+    failed: BlockReceiptsMethod,
+    next: BlockReceiptsMethod,
+    error: unknown,
+  ) => void
+}
+
+const DEFAULT_CONCURRENCY = 8
+
+/**
+ * Keep only the receipt fields that go into the receipt trie, so that every
+ * fetching strategy yields the same shape
+ */
+function normalizeReceipt(receipt: RawRpcReceipt): RawRpcReceipt {
+  return {
+    status: receipt.status,
+    cumulativeGasUsed: receipt.cumulativeGasUsed,
+    logsBloom: receipt.logsBloom,
+    logs: receipt.logs.map(({ address, topics, data }) => ({
+      address,
+      topics,
+      data,
+    })),
+    type: receipt.type,
+    transactionIndex: receipt.transactionIndex,
+    ...(receipt.depositNonce && { depositNonce: receipt.depositNonce }),
+    ...(receipt.depositReceiptVersion && {
+      depositReceiptVersion: receipt.depositReceiptVersion,
+    }),
+  }
+}
+
+function sortByTransactionIndex(receipts: RawRpcReceipt[]): RawRpcReceipt[] {
+  return receipts.sort(
+    (a, b) => Number(a.transactionIndex) - Number(b.transactionIndex),
+  )
+}
+
+/**
+ * Fetch all receipts of a block with eth_getBlockReceipts
+ */
+async function getBlockReceipts(
+  client: Client<Transport, Chain | undefined>,
+  blockNumber: bigint,
+): Promise<RawRpcReceipt[]> {
+  // eth_getBlockReceipts is not yet typed in viem but available in most RPCs
+  const receipts = await client.request<{
+    Parameters: [Hex]
+    ReturnType: RawRpcReceipt[] | null
+  }>({
+    method: 'eth_getBlockReceipts',
+    params: [numberToHex(blockNumber)],
+  })
+
+  if (!receipts) {
+    throw new Error('eth_getBlockReceipts returned no receipts')
+  }
+  return sortByTransactionIndex(receipts.map(normalizeReceipt))
+}
+
+/**
+ * Fetch the consensus-encoded receipts of a block with debug_getRawReceipts
+ * and decode them
+ */
+async function getRawReceipts(
+  client: Client<Transport, Chain | undefined>,
+  blockNumber: bigint,
+): Promise<RawRpcReceipt[]> {
+  const rawReceipts = await client.request<{
+    Parameters: [Hex]
+    ReturnType: Hex[] | null
+  }>({
+    method: 'debug_getRawReceipts',
+    params: [numberToHex(blockNumber)],
+  })
+
+  if (!rawReceipts) {
+    throw new Error('debug_getRawReceipts returned no receipts')
+  }
+
+  // Raw receipts carry no index, they come in transaction order
+  return rawReceipts.map((rawReceipt, index) => {
+    const receipt = decodeReceipt(rawReceipt)
+    return {
+      status: receipt.status === 'success' ? '0x1' : '0x0',
+      cumulativeGasUsed: numberToHex(receipt.cumulativeGasUsed),
+      logsBloom: receipt.logsBloom,
+      // lowercased as the nodes return them, the decoder checksums addresses
+      logs: receipt.logs.map(({ address, topics, data }) => ({
+        address: address.toLowerCase() as Hex,
+        topics,
+        data,
+      })),
+      type: numberToHex(receipt.type),
+      transactionIndex: numberToHex(index),
+      ...(receipt.depositNonce !== undefined && {
+        depositNonce: numberToHex(receipt.depositNonce),
+      }),
+      ...(receipt.depositReceiptVersion !== undefined && {
+        depositReceiptVersion: numberToHex(receipt.depositReceiptVersion),
+      }),
+    }
+  })
+}
+
+/**
+ * Fetch the receipts of a block one transaction at a time, with at most
+ * `concurrency` requests in flight
+ */
+async function getTransactionReceipts(
+  client: Client<Transport, Chain | undefined>,
+  blockNumber: bigint,
+  concurrency: number,
+): Promise<RawRpcReceipt[]> {
+  const { transactions } = await getBlock(client, { blockNumber })
+
+  const receipts: RawRpcReceipt[] = new Array(transactions.length)
+  let next = 0
+
+  const worker = async () => {
+    while (next < transactions.length) {
+      const index = next++
+      // Requested raw so that OP Stack deposit fields are kept
+      const receipt = await client.request<{
+        Parameters: [Hash]
+        ReturnType: RawRpcReceipt | null
+      }>({
+        method: 'eth_getTransactionReceipt',
+        params: [transactions[index]],
+      })
+
+      if (!receipt) {
+        throw new Error(
+          `eth_getTransactionReceipt returned no receipt for ${transactions[index]}`,
+        )
+      }
+      receipts[index] = normalizeReceipt(receipt)
+    }
+  }
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, transactions.length) }, worker),
+  )
+
+  return sortByTransactionIndex(receipts)
+}
+
+/**
+ * Fetch every receipt of a block in the raw RPC format used by
+ * `buildReceiptTrie`. Many public OP Stack RPCs don't serve
+ * eth_getBlockReceipts, so this falls back to debug_getRawReceipts and then
+ * to one eth_getTransactionReceipt per transaction, calling `onFallback`
+ * each time a method fails.
+ * @param client - The client of the chain the block belongs to
+ * @param blockNumber - The block to fetch the receipts of
+ * @param options - Fetching options
+ * @returns The block receipts, in transaction index order
+ */
+export async function getBlockReceiptsRaw(
+  client: Client<Transport, Chain | undefined>,
+  blockNumber: bigint,
+  {
+    concurrency = DEFAULT_CONCURRENCY,
+    onFallback,
+  }: GetBlockReceiptsRawOptions = {},
+): Promise<RawRpcReceipt[]> {
+  try {
+    return await getBlockReceipts(client, blockNumber)
+  } catch (error) {
+    onFallback?.('eth_getBlockReceipts', 'debug_getRawReceipts', error)
+  }
+
+  try {
+    return await getRawReceipts(client, blockNumber)
+  } catch (error) {
+    onFallback?.('debug_getRawReceipts', 'eth_getTransactionReceipt', error)
+  }
+
+  return getTransactionReceipts(client, blockNumber, concurrency)
+}
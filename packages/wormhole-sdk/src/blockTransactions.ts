@@ -0,0 +1,81 @@
+import { Chain, Client, Hex, numberToHex, Transport } from 'viem'
+import { RawRpcBlockHeader } from './blockHeaderProof'
+import { RawRpcTransaction } from './transactionTrieProof'
+
+// Fields of the RPC transaction object that go into the transaction trie,
+// or check its encoding
+const TRANSACTION_FIELDS = [
+  'type',
+  'hash',
+  'transactionIndex',
+  'nonce',
+  'gas',
+  'to',
+  'value',
+  'input',
+  'v',
+  'r',
+  's',
+  'yParity',
+  'chainId',
+  'gasPrice',
+  'maxPriorityFeePerGas',
+  'maxFeePerGas',
+  'accessList',
+  'maxFeePerBlobGas',
+  'blobVersionedHashes',
+  'authorizationList',
+  'sourceHash',
+  'from',
+  'mint',
+  'isSystemTx',
+] as const satisfies ReadonlyArray<keyof RawRpcTransaction>
+
+/**
+ * Keep only the transaction fields that go into the transaction trie, e.g.
+ * dropping the block fields and the effective gasPrice nodes add to EIP-1559
+ * transactions
+ */
+export function normalizeTransaction(
+  transaction: RawRpcTransaction,
+): RawRpcTransaction {
+  const normalized = Object.fromEntries(
+    TRANSACTION_FIELDS.filter((field) => transaction[field] !== undefined).map(
+      (field) => [field, transaction[field]],
+    ),
+  ) as RawRpcTransaction
+
+  // Only legacy and EIP-2930 transactions sign a gasPrice
+  if (Number(transaction.type) > 1) {
+    delete normalized.gasPrice
+  }
+  return normalized
+}
+
+/**
+ * Fetch every transaction of a block in the raw RPC format used by
+ * `buildTransactionTrie`, with eth_getBlockByNumber.
+ * @param client - The client of the chain the block belongs to
+ * @param blockNumber - The block to fetch the transactions of
+ * @returns The block transactions, in transaction index order
+ */
+export async function getBlockTransactionsRaw(
+  client: Client<Transport, Chain | undefined>,
+  blockNumber: bigint,
+): Promise<RawRpcTransaction[]> {
+  // Requested raw so that OP Stack deposit fields are kept
+  const block = await client.request<{
+    Parameters: [Hex, boolean]
+    ReturnType:
+      | (RawRpcBlockHeader & { transactions: RawRpcTransaction[] })
+      | null
+  }>({
+    method: 'eth_getBlockByNumber',
+    params: [numberToHex(blockNumber), true],
+  })
+
+  if (!block) {
+    throw new Error(`Block ${blockNumber} not found`)
+  }
+  return block.transactions.map(normalizeTransaction)
+}
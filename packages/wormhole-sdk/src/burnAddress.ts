@@ -0,0 +1,142 @@
+import {
+  Address,
+  bytesToHex,
+  concat,
+  getAddress,
+  Hex,
+  isAddress,
+  isAddressEqual,
+  isHex,
+  numberToHex,
+  sha256,
+  size,
+  slice,
+} from 'viem'
+
+/**
+ * Domain separators, so that the address, proof-of-work and nullifier hashes
+ * of one secret never collide (EIP-7503)
+ */
+export const MAGIC_ADDRESS = '0xfe'
+export const MAGIC_POW = '0x02'
+
+/**
+ * Leading zero bits sha256(MAGIC_POW || secret) must have. Finding a secret
+ * whose burn address collides with a real account already takes ~2^80
+ * hashes, the proof-of-work raises that to ~2^(80 + bits) while honest users
+ * pay ~2^bits once per secret.
+ */
+export const DEFAULT_BURN_ADDRESS_POW_BITS = 16
+
+/**
+ * Options for the burn address proof-of-work
+ */
+type BurnAddressPowOptions = {
+  powBits?: number
+}
+
+/**
+ * Arguments for checking a burn address against its secret
+ */
+type IsValidBurnAddressArgs = BurnAddressPowOptions & {
+  address: Address
+  secret: Hex
+}
+
+function assertSecret(secret: Hex) {
+  if (!isHex(secret) || size(secret) !== 32) {
+    throw new Error('Burn secret must be 32 bytes')
+  }
+}
+
+function countLeadingZeroBits(bytes: Uint8Array): number {
+  let bits = 0
+  for (const byte of bytes) {
+    if (byte !== 0) return bits + Math.clz32(byte) - 24
+    bits += 8
+  }
+  return bits
+}
+
+/**
+ * Check the proof-of-work condition of a burn secret
+ * @param secret - The 32 byte burn secret
+ * @param options - The proof-of-work difficulty
+ * @returns Whether sha256(MAGIC_POW || secret) has enough leading zero bits
+ */
+export function isValidBurnSecret(
+  secret: Hex,
+  { powBits = DEFAULT_BURN_ADDRESS_POW_BITS }: BurnAddressPowOptions = {},
+): boolean {
+  assertSecret(secret)
+  const pow = sha256(concat([MAGIC_POW, secret]), 'bytes')
+  return countLeadingZeroBits(pow) >= powBits
+}
+
+/**
+ * Search deterministically for a burn secret meeting the proof-of-work
+ * condition. The same seed always yields the same secret, so secrets can be
+ * re-derived from a wallet signature.
+ * @param seed - 32 bytes of entropy
+ * @param options - The proof-of-work difficulty
+ * @returns The first secret sha256(seed || counter) that meets the condition
+ */
+export function findBurnSecret(
+  seed: Hex,
+  { powBits = DEFAULT_BURN_ADDRESS_POW_BITS }: BurnAddressPowOptions = {},
+): Hex {
+  assertSecret(seed)
+  for (let counter = 0; counter < 2 ** 32; counter++) {
+    const secret = sha256(concat([seed, numberToHex(counter, { size: 4 })]))
+    if (isValidBurnSecret(secret, { powBits })) return secret
+  }
+  throw new Error(`No burn secret with ${powBits} bits of work for this seed`)
+}
+
+/**
+ * Generate a random burn secret meeting the proof-of-work condition
+ * @param options - The proof-of-work difficulty
+ * @returns The burn secret
+ */
+export function generateBurnSecret(options: BurnAddressPowOptions = {}): Hex {
+  const seed = crypto.getRandomValues(new Uint8Array(32))
+  return findBurnSecret(bytesToHex(seed), options)
+}
+
+/**
+ * Derive the unspendable address tokens are burnt to: the last 20 bytes of
+ * sha256(MAGIC_ADDRESS || secret). No private key is known for it, and the
+ * proof-of-work makes finding one that collides infeasible.
+ * @param secret - The 32 byte burn secret
+ * @param options - The proof-of-work difficulty the secret must meet
+ * @returns The checksummed burn address
+ */
+export function deriveBurnAddress(
+  secret: Hex,
+  options: BurnAddressPowOptions = {},
+): Address {
+  if (!isValidBurnSecret(secret, options)) {
+    throw new Error('Burn secret does not meet the proof-of-work condition')
+  }
+  const hash = sha256(concat([MAGIC_ADDRESS, secret]))
+  return getAddress(slice(hash, 12))
+}
+
+/**
+ * Check that an address is the burn address of a secret, and that the secret
+ * meets the proof-of-work condition
+ * @param param0 - The address, the secret and the proof-of-work difficulty
+ * @returns Whether the address is a valid burn address for the secret
+ */
+export function isValidBurnAddress({
+  address,
+  secret,
+  powBits,
+}: IsValidBurnAddressArgs): boolean {
+  if (!isAddress(address) || !isHex(secret) || size(secret) !== 32) {
+    return false
+  }
+  if (!isValidBurnSecret(secret, { powBits })) return false
+
+  return isAddressEqual(address, deriveBurnAddress(secret, { powBits }))
+}
@@ -0,0 +1,6 @@
+import { supersimL2A, supersimL2B } from '@eth-optimism/viem'
+
+/**
+ * The two supersim L2s tokens are bridged between
+ */
+export const supersimChains = [supersimL2A, supersimL2B] as const
@@ -0,0 +1,208 @@
+import {
+  Address,
+  bytesToHex,
+  Chain,
+  Client,
+  concat,
+  Hex,
+  hexToBytes,
+  numberToHex,
+  stringToBytes,
+  Transport,
+} from 'viem'
+import {
+  getChainId,
+  getContractEvents,
+  getTransactionReceipt,
+} from 'viem/actions'
+import { L2NativeSuperchainERC20Abi } from './abi/L2NativeSuperchainERC20Abi'
+import { deriveBurnAddress, findBurnSecret } from './burnAddress'
+import { validateNote, WormholeNote } from './note'
+
+/**
+ * Typed data signed once to derive every burn secret of a wallet. It holds
+ * no chain id, nonce or date, so that the signature, and the secrets, are the
+ * same whenever and wherever it is signed again.
+ */
+export const WORMHOLE_SECRETS_TYPED_DATA = {
+  domain: { name: 'zk wormholes', version: '1' },
+  types: {
+    WormholeSecrets: [{ name: 'purpose', type: 'string' }],
+  },
+  primaryType: 'WormholeSecrets',
+  message: {
+    purpose:
+      'Derive my zk wormhole burn secrets. Anyone holding this signature can mint my burnt tokens.',
+  },
+} as const
+
+const HKDF_INFO = 'zkw-burn-secret'
+
+/**
+ * Arguments for deriving the burn secret of one index
+ */
+type DeriveWormholeSecretArgs = {
+  // signature over WORMHOLE_SECRETS_TYPED_DATA
+  signature: Hex
+  index: number
+  powBits?: number
+}
+
+/**
+ * Arguments for deriving the burn secrets of indexes 0..count-1
+ */
+type DeriveWormholeSecretsArgs = Omit<DeriveWormholeSecretArgs, 'index'> & {
+  count: number
+}
+
+/**
+ * Arguments for recovering the notes of burns to derived addresses
+ */
+type RecoverWormholeNotesArgs = {
+  // a client of the chain the burns happened on
+  client: Client<Transport, Chain | undefined>
+  token: Address
+  // secrets derived by `deriveWormholeSecrets`, in index order
+  secrets: Hex[]
+  fromBlock?: bigint
+  toBlock?: bigint
+  powBits?: number
+}
+
+/**
+ * A note rebuilt from a burn, with the index its secret was derived at
+ */
+export type RecoveredWormholeNote = {
+  index: number
+  note: WormholeNote
+}
+
+/**
+ * Derive the burn secret at an index, as the first secret meeting the
+ * proof-of-work found from HKDF-SHA256(signature, info = tag || index).
+ * Signers must produce deterministic signatures (RFC 6979), as EOAs do.
+ * @param param0 - The signature, the index and the proof-of-work difficulty
+ * @returns The burn secret
+ */
+export async function deriveWormholeSecret({
+  signature,
+  index,
+  powBits,
+}: DeriveWormholeSecretArgs): Promise<Hex> {
+  if (!Number.isInteger(index) || index < 0 || index >= 2 ** 32) {
+    throw new Error(`Secret index ${index} must be a uint32`)
+  }
+
+  const material = await crypto.subtle.importKey(
+    'raw',
+    hexToBytes(signature),
+    'HKDF',
+    false,
+    ['deriveBits'],
+  )
+  const seed = await crypto.subtle.deriveBits(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: new Uint8Array(),
+      info: hexToBytes(
+        concat([
+          bytesToHex(stringToBytes(HKDF_INFO)),
+          numberToHex(index, { size: 4 }),
+        ]),
+      ),
+    },
+    material,
+    256,
+  )
+
+  return findBurnSecret(bytesToHex(new Uint8Array(seed)), { powBits })
+}
+
+/**
+ * Derive the burn secrets of the first indexes, e.g. once before recovering
+ * notes on several chains
+ * @param param0 - The signature, how many secrets and the proof-of-work
+ * difficulty
+ * @returns The burn secrets, in index order
+ */
+export async function deriveWormholeSecrets({
+  count,
+  ...args
+}: DeriveWormholeSecretsArgs): Promise<Hex[]> {
+  const secrets: Hex[] = []
+  for (let index = 0; index < count; index++) {
+    secrets.push(await deriveWormholeSecret({ ...args, index }))
+  }
+  return secrets
+}
+
+/**
+ * Rebuild the notes of burns to the addresses derived from a signature, by
+ * querying Transfer logs on their indexed recipient. Burns that happened
+ * after a lost note can be minted again this way.
+ * @param param0 - A client of the source chain, the token and the derived
+ * secrets
+ * @returns The recovered notes, ordered as the burns happened
+ */
+export async function recoverWormholeNotes({
+  client,
+  token,
+  secrets,
+  fromBlock = 0n,
+  toBlock,
+  powBits,
+}: RecoverWormholeNotesArgs): Promise<RecoveredWormholeNote[]> {
+  const addresses = secrets.map((secret) =>
+    deriveBurnAddress(secret, { powBits }),
+  )
+  // keyed by lowercased burn address
+  const indexes = new Map(
+    addresses.map((address, index) => [address.toLowerCase(), index]),
+  )
+
+  const [sourceChainId, logs] = await Promise.all([
+    getChainId(client),
+    getContractEvents(client, {
+      address: token,
+      abi: L2NativeSuperchainERC20Abi,
+      eventName: 'Transfer',
+      args: { to: addresses },
+      fromBlock,
+      toBlock,
+      strict: true,
+    }),
+  ])
+
+  return Promise.all(
+    logs.map(async (log) => {
+      const index = indexes.get(log.args.to.toLowerCase())!
+
+      // Notes hold the position of the log inside its receipt
+      const receipt = await getTransactionReceipt(client, {
+        hash: log.transactionHash,
+      })
+      const logIndex = receipt.logs.findIndex(
+        ({ logIndex }) => logIndex === log.logIndex,
+      )
+      if (logIndex === -1) {
+        throw new Error(
+          `Transfer log ${log.logIndex} is not in the receipt of ${log.transactionHash}`,
+        )
+      }
+
+      return {
+        index,
+        note: validateNote({
+          secret: secrets[index],
+          amount: log.args.amount,
+          token,
+          sourceChainId,
+          blockNumber: log.blockNumber,
+          transactionIndex: log.transactionIndex,
+          logIndex,
+        }),
+      }
+    }),
+  )
+}
@@ -0,0 +1,154 @@
+import type {
+  CircuitSignals,
+  Groth16Proof as SnarkjsGroth16Proof,
+} from 'snarkjs'
+import { hexToBigInt, hexToBytes } from 'viem'
+import type { Groth16Proof, Prover } from './prover'
+import { toPublicSignalsArray, WormholeWitness } from './wormholeWitness'
+
+/**
+ * Artifacts of the compiled wormhole circuit. In the browser they are URLs,
+ * in Node file paths, or their bytes in both.
+ */
+export type Groth16ProverConfig = {
+  backend: 'groth16'
+  wasm: string | Uint8Array
+  zkey: string | Uint8Array
+  // defaults to the verification key of the zkey
+  verificationKey?: object
+}
+
+// Fixed size of the header input, OP Stack headers are ~600 bytes
+export const MAX_HEADER_LENGTH = 1024
+// Transfer has three topics, the circuit allows the EVM maximum
+const MAX_TOPICS = 4
+
+function padArray(values: number[], length: number): number[] {
+  return [...values, ...new Array<number>(length - values.length).fill(0)]
+}
+
+/**
+ * Map a witness to the input signals of the wormhole circuit
+ * @param witness - The witness, as built by `buildWormholeWitness`
+ * @returns The circuit inputs, named after the circuit signals
+ */
+export function formatWormholeCircuitInput(
+  witness: WormholeWitness,
+): CircuitSignals {
+  const { note, receipt, log, publicSignals } = witness
+  const header = Array.from(hexToBytes(witness.headerRlp))
+  if (header.length > MAX_HEADER_LENGTH) {
+    throw new Error(
+      `Block header is ${header.length} bytes, exceeds MAX_HEADER_LENGTH ${MAX_HEADER_LENGTH}`,
+    )
+  }
+
+  return {
+    // private
+    secret: hexToBigInt(note.secret),
+    sourceChainId: note.sourceChainId,
+    blockNumber: note.blockNumber,
+    transactionIndex: note.transactionIndex,
+    logIndex: note.logIndex,
+    blockHash: Array.from(hexToBytes(witness.blockHash)),
+    header: padArray(header, MAX_HEADER_LENGTH),
+    headerLength: header.length,
+    receiptsRootOffset: witness.receiptsRootOffset,
+    ...receipt,
+    logOffset: log.logOffset,
+    logLength: log.logLength,
+    addressOffset: log.addressOffset,
+    topicOffsets: padArray(log.topicOffsets, MAX_TOPICS),
+    topicsLength: log.topicOffsets.length,
+    dataOffset: log.dataOffset,
+    dataLength: log.dataLength,
+    // public
+    receiptFact: publicSignals.receiptFact,
+    tokenAddr: publicSignals.token,
+    withdrawAmount: publicSignals.withdrawAmount,
+    changeCommitment: publicSignals.changeCommitment,
+    nullifier: publicSignals.nullifier,
+    recipient: publicSignals.recipient,
+    relayerFee: publicSignals.relayerFee,
+    relayer: publicSignals.relayer,
+  }
+}
+
+// snarkjs points are projective with z = 1, the verifier contract takes them
+// affine and with the two coordinates of each Fq2 element of pB swapped
+function fromSnarkjsProof({
+  pi_a,
+  pi_b,
+  pi_c,
+}: SnarkjsGroth16Proof): Groth16Proof {
+  return {
+    pA: [BigInt(pi_a[0]), BigInt(pi_a[1])],
+    pB: [
+      [BigInt(pi_b[0][1]), BigInt(pi_b[0][0])],
+      [BigInt(pi_b[1][1]), BigInt(pi_b[1][0])],
+    ],
+    pC: [BigInt(pi_c[0]), BigInt(pi_c[1])],
+  }
+}
+
+function toSnarkjsProof({ pA, pB, pC }: Groth16Proof): SnarkjsGroth16Proof {
+  return {
+    pi_a: [pA[0].toString(), pA[1].toString(), '1'],
+    pi_b: [
+      [pB[0][1].toString(), pB[0][0].toString()],
+      [pB[1][1].toString(), pB[1][0].toString()],
+      ['1', '0'],
+    ],
+    pi_c: [pC[0].toString(), pC[1].toString(), '1'],
+    protocol: 'groth16',
+    curve: 'bn128',
+  }
+}
+
+/**
+ * Prove burns with snarkjs, from the wasm witness generator and the zkey of
+ * the wormhole circuit. snarkjs is only loaded on first use.
+ * @param param0 - The circuit artifacts
+ * @returns The Groth16 prover
+ */
+export function createGroth16Prover({
+  wasm,
+  zkey,
+  verificationKey,
+}: Groth16ProverConfig): Prover {
+  let verificationKeyPromise: Promise<object> | undefined
+
+  return {
+    generateProof: async (witness) => {
+      const { groth16 } = await import('snarkjs')
+      const { proof, publicSignals } = await groth16.fullProve(
+        formatWormholeCircuitInput(witness),
+        wasm,
+        zkey,
+      )
+
+      const expected = toPublicSignalsArray(witness.publicSignals)
+      if (
+        publicSignals.length !== expected.length ||
+        publicSignals.some((signal, i) => BigInt(signal) !== expected[i])
+      ) {
+        throw new Error(
+          'The circuit output public signals that do not match the witness',
+        )
+      }
+      return { proof: fromSnarkjsProof(proof), publicSignals: expected }
+    },
+    verify: async ({ proof, publicSignals }) => {
+      const { groth16, zKey } = await import('snarkjs')
+      verificationKeyPromise ??= verificationKey
+        ? Promise.resolve(verificationKey)
+        : zKey.exportVerificationKey(zkey)
+
+      return groth16.verify(
+        await verificationKeyPromise,
+        publicSignals.map(String),
+        toSnarkjsProof(proof),
+      )
+    },
+  }
+}
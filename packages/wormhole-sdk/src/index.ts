@@ -0,0 +1,24 @@
+export * from './abi/L2NativeSuperchainERC20Abi'
+export * from './abi/SuperchainTokenBridgeAbi'
+export * from './abi/ZkWormholesERC20Abi'
+export * from './abi/ZkWormholesNullifiersAbi'
+export * from './blockHeaderProof'
+export * from './blockReceipts'
+export * from './blockTransactions'
+export * from './burnAddress'
+export * from './deterministicSecrets'
+export * from './groth16Prover'
+export * from './note'
+export * from './nullifier'
+export * from './nullifierRegistry'
+export * from './prover'
+export * from './receiptDecoder'
+export * from './receiptLogWitness'
+export * from './receiptProofWitness'
+export * from './receiptsRootDiagnostics'
+export * from './receiptTrieProof'
+export * from './receiptTrieVerifier'
+export * from './rlpSpans'
+export * from './storageProof'
+export * from './transactionTrieProof'
+export * from './wormholeWitness'
@@ -0,0 +1,54 @@
+import {
+  createMerkleProof,
+  createMPT,
+  MerklePatriciaTrie,
+} from '@ethereumjs/mpt'
+import { RLP } from '@ethereumjs/rlp'
+import { bytesToHex, Hex } from 'viem'
+
+/**
+ * Proof of one entry of a trie keyed by transaction index, as the receipts
+ * and transactions tries of a block are
+ */
+export type IndexedTrieProof = {
+  rootHash: Hex
+  key: Hex
+  proofNodes: Hex[]
+}
+
+/**
+ * Insert every item into a fresh Merkle Patricia Trie, keyed by the RLP of
+ * its transaction index
+ */
+export async function createIndexedTrie<T extends { transactionIndex: Hex }>(
+  items: T[],
+  encode: (item: T) => Uint8Array,
+): Promise<MerklePatriciaTrie> {
+  const trie = await createMPT()
+
+  for (const item of items) {
+    const key = RLP.encode(Number(item.transactionIndex))
+    const value = encode(item)
+
+    await trie.put(key, value)
+  }
+
+  return trie
+}
+
+/**
+ * Create the proof for a single transaction index from an already built trie
+ */
+export async function createIndexedProof(
+  trie: MerklePatriciaTrie,
+  targetTxIndex: Hex,
+): Promise<IndexedTrieProof> {
+  const targetKey = RLP.encode(Number(targetTxIndex))
+  const proof = await createMerkleProof(trie, targetKey)
+
+  return {
+    rootHash: bytesToHex(trie.root()),
+    key: bytesToHex(targetKey),
+    proofNodes: proof.map((node) => bytesToHex(node)),
+  }
+}
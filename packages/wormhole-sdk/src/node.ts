@@ -0,0 +1,14 @@
+import { ReceiptProofWitness } from './receiptProofWitness'
+
+/**
+ * Write a receipt proof witness as an `input.json` the circuit can consume
+ * @param path - Where to write the input file
+ * @param witness - The witness from `formatReceiptProofWitness`
+ */
+export async function writeReceiptProofWitness(
+  path: string,
+  witness: ReceiptProofWitness,
+): Promise<void> {
+  const { writeFile } = await import('node:fs/promises')
+  await writeFile(path, JSON.stringify(witness, null, 2))
+}
@@ -0,0 +1,309 @@
+import {
+  Address,
+  bytesToHex,
+  concat,
+  encodePacked,
+  getAddress,
+  Hex,
+  hexToBigInt,
+  hexToNumber,
+  isAddress,
+  isHex,
+  maxUint256,
+  sha256,
+  size,
+  slice,
+} from 'viem'
+
+/**
+ * Everything needed to mint a burn later. Losing it means losing the funds.
+ */
+export type WormholeNote = {
+  secret: Hex
+  amount: bigint
+  token: Address
+  sourceChainId: number
+  blockNumber: bigint
+  transactionIndex: number
+  // position of the burn log inside its receipt, not the block-wide logIndex
+  logIndex: number
+}
+
+/**
+ * JSON form of a note, with the compact string alongside so that either can
+ * restore it
+ */
+export type WormholeNoteJson = {
+  format: typeof NOTE_FORMAT
+  version: typeof NOTE_VERSION
+  secret: Hex
+  // decimal strings, JSON numbers lose precision above 2^53
+  amount: string
+  token: Address
+  sourceChainId: number
+  blockNumber: string
+  transactionIndex: number
+  logIndex: number
+  note: string
+}
+
+export const NOTE_FORMAT = 'zkw-note'
+export const NOTE_VERSION = 1
+const NOTE_PREFIX = `${NOTE_FORMAT}-v${NOTE_VERSION}-`
+
+// secret, token, amount, sourceChainId, blockNumber, transactionIndex, logIndex
+const NOTE_LAYOUT = [
+  'bytes32',
+  'address',
+  'uint256',
+  'uint64',
+  'uint64',
+  'uint32',
+  'uint32',
+] as const
+const NOTE_PAYLOAD_SIZE = 32 + 20 + 32 + 8 + 8 + 4 + 4
+const NOTE_CHECKSUM_SIZE = 4
+
+const MAX_UINT32 = 2 ** 32 - 1
+const MAX_UINT64 = 2n ** 64n - 1n
+
+/**
+ * Checksum over the version prefix and the payload, so that a note of another
+ * version can never pass as this one
+ */
+function noteChecksum(payload: Hex): Hex {
+  const prefix = bytesToHex(new TextEncoder().encode(NOTE_PREFIX))
+  return slice(sha256(concat([prefix, payload])), 0, NOTE_CHECKSUM_SIZE)
+}
+
+function isUint(value: unknown, max: number): value is number {
+  return (
+    Number.isSafeInteger(value) &&
+    (value as number) >= 0 &&
+    (value as number) <= max
+  )
+}
+
+/**
+ * Check that every note field is in range, so that a note is rejected when it
+ * is created rather than when it is needed to mint
+ * @param note - The note to check
+ * @returns The note, with the token address checksummed
+ */
+export function validateNote(note: WormholeNote): WormholeNote {
+  const errors: string[] = []
+  if (!isHex(note.secret) || size(note.secret) !== 32) {
+    errors.push('secret must be 32 bytes')
+  }
+  if (
+    typeof note.amount !== 'bigint' ||
+    note.amount <= 0n ||
+    note.amount > maxUint256
+  ) {
+    errors.push('amount must be a positive uint256')
+  }
+  if (
+    typeof note.token !== 'string' ||
+    !isAddress(note.token, { strict: false })
+  ) {
+    errors.push('token must be an address')
+  }
+  if (
+    !isUint(note.sourceChainId, Number.MAX_SAFE_INTEGER) ||
+    note.sourceChainId === 0
+  ) {
+    errors.push('sourceChainId must be a positive integer')
+  }
+  if (
+    typeof note.blockNumber !== 'bigint' ||
+    note.blockNumber < 0n ||
+    note.blockNumber > MAX_UINT64
+  ) {
+    errors.push('blockNumber must be a uint64')
+  }
+  if (!isUint(note.transactionIndex, MAX_UINT32)) {
+    errors.push('transactionIndex must be a uint32')
+  }
+  if (!isUint(note.logIndex, MAX_UINT32)) {
+    errors.push('logIndex must be a uint32')
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid note: ${errors.join(', ')}`)
+  }
+  return {
+    ...note,
+    secret: note.secret.toLowerCase() as Hex,
+    token: getAddress(note.token),
+  }
+}
+
+/**
+ * Serialize a note as a compact, checksummed string
+ * @param note - The note
+ * @returns `zkw-note-v1-` followed by the hex payload and checksum
+ */
+export function encodeNote(note: WormholeNote): string {
+  const {
+    secret,
+    token,
+    amount,
+    sourceChainId,
+    blockNumber,
+    transactionIndex,
+    logIndex,
+  } = validateNote(note)
+
+  const payload = encodePacked(NOTE_LAYOUT, [
+    secret,
+    token,
+    amount,
+    BigInt(sourceChainId),
+    blockNumber,
+    transactionIndex,
+    logIndex,
+  ])
+
+  return `${NOTE_PREFIX}${concat([payload, noteChecksum(payload)]).slice(2)}`
+}
+
+/**
+ * Parse a compact note string, checking its version and checksum
+ * @param text - The note string, surrounding whitespace is ignored
+ * @returns The note
+ */
+export function decodeNote(text: string): WormholeNote {
+  const trimmed = text.trim()
+  const match = /^zkw-note-v(\d+)-([0-9a-fA-F]*)$/.exec(trimmed)
+  if (!match) {
+    throw new Error(
+      `Invalid note: expected a string starting with ${NOTE_PREFIX}`,
+    )
+  }
+  if (Number(match[1]) !== NOTE_VERSION) {
+    throw new Error(`Invalid note: unsupported version v${match[1]}`)
+  }
+
+  if (match[2].length % 2 !== 0) {
+    throw new Error(
+      `Invalid note: odd number of hex digits (${match[2].length}) in the payload`,
+    )
+  }
+  const bytes: Hex = `0x${match[2].toLowerCase()}`
+  if (size(bytes) !== NOTE_PAYLOAD_SIZE + NOTE_CHECKSUM_SIZE) {
+    throw new Error(
+      `Invalid note: expected ${NOTE_PAYLOAD_SIZE + NOTE_CHECKSUM_SIZE} bytes, got ${size(bytes)}`,
+    )
+  }
+
+  const payload = slice(bytes, 0, NOTE_PAYLOAD_SIZE)
+  if (slice(bytes, NOTE_PAYLOAD_SIZE) !== noteChecksum(payload)) {
+    throw new Error(
+      'Invalid note: checksum mismatch, the note is corrupted or mistyped',
+    )
+  }
+
+  let offset = 0
+  const read = (length: number) => {
+    const field = slice(payload, offset, offset + length)
+    offset += length
+    return field
+  }
+
+  return validateNote({
+    secret: read(32),
+    token: getAddress(read(20)),
+    amount: hexToBigInt(read(32)),
+    sourceChainId: hexToNumber(read(8)),
+    blockNumber: hexToBigInt(read(8)),
+    transactionIndex: hexToNumber(read(4)),
+    logIndex: hexToNumber(read(4)),
+  })
+}
+
+/**
+ * Convert a note to its JSON form
+ * @param note - The note
+ * @returns The JSON form, including the compact string
+ */
+export function noteToJson(note: WormholeNote): WormholeNoteJson {
+  const valid = validateNote(note)
+
+  return {
+    format: NOTE_FORMAT,
+    version: NOTE_VERSION,
+    secret: valid.secret,
+    amount: valid.amount.toString(),
+    token: valid.token,
+    sourceChainId: valid.sourceChainId,
+    blockNumber: valid.blockNumber.toString(),
+    transactionIndex: valid.transactionIndex,
+    logIndex: valid.logIndex,
+    note: encodeNote(valid),
+  }
+}
+
+/**
+ * Restore a note from its JSON form. The fields must agree with the compact
+ * string, which carries the checksum.
+ * @param json - The parsed JSON
+ * @returns The note
+ */
+export function noteFromJson(json: unknown): WormholeNote {
+  if (typeof json !== 'object' || json === null) {
+    throw new Error('Invalid note: expected a JSON object')
+  }
+  const fields = json as Partial<Record<keyof WormholeNoteJson, unknown>>
+  if (fields.format !== NOTE_FORMAT) {
+    throw new Error(`Invalid note: format must be ${NOTE_FORMAT}`)
+  }
+  if (fields.version !== NOTE_VERSION) {
+    throw new Error(
+      `Invalid note: unsupported version ${String(fields.version)}`,
+    )
+  }
+  if (typeof fields.note !== 'string') {
+    throw new Error('Invalid note: missing compact note')
+  }
+
+  const note = decodeNote(fields.note)
+  const expected = noteToJson(note)
+  const mismatches = (
+    [
+      'secret',
+      'amount',
+      'token',
+      'sourceChainId',
+      'blockNumber',
+      'transactionIndex',
+      'logIndex',
+    ] as const
+  ).filter(
+    (key) =>
+      String(fields[key]).toLowerCase() !== String(expected[key]).toLowerCase(),
+  )
+  if (mismatches.length > 0) {
+    throw new Error(
+      `Invalid note: ${mismatches.join(', ')} do not match the compact note`,
+    )
+  }
+  return note
+}
+
+/**
+ * Parse a note in either form: the compact string or its JSON
+ * @param text - The compact string or the JSON text
+ * @returns The note
+ */
+export function parseNote(text: string): WormholeNote {
+  const trimmed = text.trim()
+  if (!trimmed.startsWith('{')) return decodeNote(trimmed)
+
+  let json: unknown
+  try {
+    json = JSON.parse(trimmed)
+  } catch {
+    throw new Error('Invalid note: malformed JSON')
+  }
+  return noteFromJson(json)
+}
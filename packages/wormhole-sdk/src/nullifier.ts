@@ -0,0 +1,64 @@
+import { encodePacked, Hex, hexToBigInt, numberToHex, sha256 } from 'viem'
+
+/**
+ * Domain separator of the nullifier hash, next to MAGIC_ADDRESS and MAGIC_POW
+ */
+export const MAGIC_NULLIFIER = '0x01'
+
+/**
+ * Order of the BN254 scalar field, which Groth16 public signals live in
+ */
+export const SNARK_SCALAR_FIELD =
+  21888242871839275222246405745257275088548364400416034343698204186575808495617n
+
+/**
+ * Where a burn happened: the Transfer log to the burn address on the source
+ * chain
+ */
+export type BurnLogCoordinates = {
+  chainId: number
+  blockNumber: bigint
+  transactionIndex: number
+  // position of the log inside its receipt, not the block-wide logIndex
+  logIndex: number
+}
+
+/**
+ * Arguments for deriving the nullifier of a burn
+ */
+type DeriveNullifierArgs = BurnLogCoordinates & {
+  secret: Hex
+}
+
+/**
+ * Derive the nullifier a private mint reveals for a burn. It binds the
+ * wormhole secret to one burn log, so every burn can be minted exactly once
+ * while the nullifier tells nothing about the burn address.
+ * @param param0 - The wormhole secret and the burn log coordinates
+ * @returns sha256(MAGIC_NULLIFIER || secret || chainId || blockNumber ||
+ * transactionIndex || logIndex), reduced into the SNARK scalar field so that
+ * it can be a public signal
+ */
+export function deriveNullifier({
+  secret,
+  chainId,
+  blockNumber,
+  transactionIndex,
+  logIndex,
+}: DeriveNullifierArgs): Hex {
+  const hash = sha256(
+    encodePacked(
+      ['bytes1', 'bytes32', 'uint256', 'uint64', 'uint32', 'uint32'],
+      [
+        MAGIC_NULLIFIER,
+        secret,
+        BigInt(chainId),
+        blockNumber,
+        transactionIndex,
+        logIndex,
+      ],
+    ),
+  )
+
+  return numberToHex(hexToBigInt(hash) % SNARK_SCALAR_FIELD, { size: 32 })
+}
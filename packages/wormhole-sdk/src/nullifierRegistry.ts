@@ -0,0 +1,131 @@
+import { Address, Chain, Client, Hex, hexToBigInt, Transport } from 'viem'
+import { readContract } from 'viem/actions'
+import { ZkWormholesNullifiersAbi } from './abi/ZkWormholesNullifiersAbi'
+
+/**
+ * Answers whether a nullifier was already used for a mint. Clients and
+ * relayers query it before proving, so that already-spent burns are refused
+ * before any work is done.
+ */
+export type NullifierRegistry = {
+  isSpent: (nullifier: Hex) => Promise<boolean>
+}
+
+/**
+ * Registry that remembers nullifiers locally, e.g. mints this client or
+ * relayer submitted that are not final yet
+ */
+export type LocalNullifierRegistry = NullifierRegistry & {
+  markSpent: (nullifier: Hex) => Promise<void>
+}
+
+/**
+ * Minimal key-value store, satisfied by `localStorage`
+ */
+export type NullifierStorage = Pick<Storage, 'getItem' | 'setItem'>
+
+/**
+ * Arguments for reading spent nullifiers from the destination chain
+ */
+type CreateOnchainNullifierRegistryArgs = {
+  client: Client<Transport, Chain | undefined>
+  // contract exposing `nullifiers(uint256) returns (bool)`
+  address: Address
+}
+
+/**
+ * Arguments for keeping spent nullifiers in a local store
+ */
+type CreateLocalNullifierRegistryArgs = {
+  storage?: NullifierStorage
+  storageKey?: string
+}
+
+const DEFAULT_STORAGE_KEY = 'zkw-spent-nullifiers'
+
+function createMemoryStorage(): NullifierStorage {
+  const items = new Map<string, string>()
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+  }
+}
+
+/**
+ * Read spent nullifiers from the contract that mints on the destination chain
+ * @param param0 - A client of the destination chain and the contract address
+ * @returns The registry
+ */
+export function createOnchainNullifierRegistry({
+  client,
+  address,
+}: CreateOnchainNullifierRegistryArgs): NullifierRegistry {
+  return {
+    isSpent: (nullifier) =>
+      readContract(client, {
+        address,
+        abi: ZkWormholesNullifiersAbi,
+        functionName: 'nullifiers',
+        args: [hexToBigInt(nullifier)],
+      }),
+  }
+}
+
+/**
+ * Keep spent nullifiers in a local store, in memory unless a storage such as
+ * `localStorage` is given
+ * @param param0 - The storage and the key the nullifiers are kept under
+ * @returns The registry
+ */
+export function createLocalNullifierRegistry({
+  storage = createMemoryStorage(),
+  storageKey = DEFAULT_STORAGE_KEY,
+}: CreateLocalNullifierRegistryArgs = {}): LocalNullifierRegistry {
+  const load = (): Hex[] => {
+    const stored = storage.getItem(storageKey)
+    return stored ? (JSON.parse(stored) as Hex[]) : []
+  }
+
+  return {
+    isSpent: async (nullifier) =>
+      load().includes(nullifier.toLowerCase() as Hex),
+    markSpent: async (nullifier) => {
+      const spent = new Set(load())
+      spent.add(nullifier.toLowerCase() as Hex)
+      storage.setItem(storageKey, JSON.stringify([...spent]))
+    },
+  }
+}
+
+/**
+ * Combine registries, e.g. the on-chain reader with the local store of
+ * pending mints. A nullifier is spent as soon as one registry says so.
+ * @param registries - The registries to query
+ * @returns The combined registry
+ */
+export function combineNullifierRegistries(
+  ...registries: NullifierRegistry[]
+): NullifierRegistry {
+  return {
+    isSpent: async (nullifier) => {
+      const spent = await Promise.all(
+        registries.map((registry) => registry.isSpent(nullifier)),
+      )
+      return spent.some(Boolean)
+    },
+  }
+}
+
+/**
+ * Refuse a burn whose nullifier was already used, before proving it
+ * @param registry - The registry to query
+ * @param nullifier - The nullifier of the burn
+ */
+export async function assertNullifierUnspent(
+  registry: NullifierRegistry,
+  nullifier: Hex,
+): Promise<void> {
+  if (await registry.isSpent(nullifier)) {
+    throw new Error(`Nullifier ${nullifier} is already spent`)
+  }
+}
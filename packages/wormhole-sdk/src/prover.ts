@@ -0,0 +1,228 @@
+import {
+  bytesToHex,
+  encodeAbiParameters,
+  hexToBigInt,
+  isAddressEqual,
+  pad,
+  sha256,
+} from 'viem'
+import { verifyBlockHeaderProof } from './blockHeaderProof'
+import { deriveBurnAddress } from './burnAddress'
+import { createGroth16Prover, Groth16ProverConfig } from './groth16Prover'
+import { deriveNullifier, SNARK_SCALAR_FIELD } from './nullifier'
+import { verifyReceiptLogWitness } from './receiptLogWitness'
+import { ReceiptProofWitness } from './receiptProofWitness'
+import { verifyReceiptProof } from './receiptTrieVerifier'
+import {
+  deriveReceiptFact,
+  toPublicSignalsArray,
+  WormholePublicSignalsArray,
+  WormholeWitness,
+} from './wormholeWitness'
+
+/**
+ * Groth16 proof in the layout the Solidity verifier takes it, with pB already
+ * in the order the pairing precompile expects
+ */
+export type Groth16Proof = {
+  pA: readonly [bigint, bigint]
+  pB: readonly [readonly [bigint, bigint], readonly [bigint, bigint]]
+  pC: readonly [bigint, bigint]
+}
+
+/**
+ * A proof of one burn and the public signals it was proven for
+ */
+export type WormholeProof = {
+  proof: Groth16Proof
+  publicSignals: WormholePublicSignalsArray
+}
+
+/**
+ * Proves burns. Implementations are interchangeable, so that the whole
+ * pipeline runs against the mock before the circuit is final.
+ */
+export type Prover = {
+  generateProof: (witness: WormholeWitness) => Promise<WormholeProof>
+  verify: (proof: WormholeProof) => Promise<boolean>
+}
+
+/**
+ * Selects a prover backend
+ */
+export type ProverConfig = { backend: 'mock' } | Groth16ProverConfig
+
+const MOCK_PROOF_TAG = 'zkw-mock-proof'
+
+/**
+ * Rebuild the receipt proof a witness was formatted from
+ */
+function unpadReceiptProof({
+  rootHash,
+  nodes,
+  nodeLengths,
+  depth,
+  keyNibbles,
+  keyNibblesLength,
+}: ReceiptProofWitness) {
+  const key = new Uint8Array(keyNibblesLength / 2)
+  key.forEach(
+    (_, i) => (key[i] = (keyNibbles[2 * i] << 4) | keyNibbles[2 * i + 1]),
+  )
+
+  return {
+    rootHash: bytesToHex(Uint8Array.from(rootHash)),
+    key: bytesToHex(key),
+    proofNodes: nodes
+      .slice(0, depth)
+      .map((node, i) =>
+        bytesToHex(Uint8Array.from(node.slice(0, nodeLengths[i]))),
+      ),
+  }
+}
+
+/**
+ * Check outside of a circuit what the wormhole circuit constrains
+ */
+function checkWitness({
+  note,
+  blockHash,
+  headerRlp,
+  receiptsRootOffset,
+  receipt,
+  log,
+  nullifier,
+  publicSignals,
+}: WormholeWitness): string | undefined {
+  const proof = unpadReceiptProof(receipt)
+  if (
+    !verifyBlockHeaderProof({
+      headerRlp,
+      receiptsRootOffset,
+      blockHash,
+      rootHash: proof.rootHash,
+    })
+  ) {
+    return 'the header does not commit to the receipts root'
+  }
+
+  try {
+    const { value } = verifyReceiptProof(proof)
+    verifyReceiptLogWitness({ value, log })
+  } catch (error) {
+    return (error as Error).message
+  }
+
+  if (
+    log.log.topics[2]?.toLowerCase() !==
+      pad(deriveBurnAddress(note.secret)).toLowerCase() ||
+    !isAddressEqual(log.log.address, note.token) ||
+    hexToBigInt(log.log.data) !== note.amount
+  ) {
+    return 'the log is not the burn of the note'
+  }
+
+  const expectedNullifier = deriveNullifier({
+    secret: note.secret,
+    chainId: note.sourceChainId,
+    blockNumber: note.blockNumber,
+    transactionIndex: note.transactionIndex,
+    logIndex: note.logIndex,
+  })
+  if (
+    nullifier !== expectedNullifier ||
+    publicSignals.nullifier !== hexToBigInt(expectedNullifier)
+  ) {
+    return 'the nullifier does not match the note'
+  }
+  if (
+    publicSignals.receiptFact !==
+      deriveReceiptFact({ chainId: note.sourceChainId, blockHash }) ||
+    publicSignals.token !== hexToBigInt(note.token) ||
+    publicSignals.withdrawAmount !== note.amount ||
+    publicSignals.changeCommitment !== 0n
+  ) {
+    return 'the public signals do not match the note'
+  }
+  if (
+    publicSignals.recipient >= 2n ** 160n ||
+    publicSignals.relayerFee > publicSignals.withdrawAmount
+  ) {
+    return 'the recipient is not an address or the relayer fee exceeds the amount'
+  }
+  if (
+    publicSignals.relayer >= 2n ** 160n ||
+    (publicSignals.relayerFee > 0n && publicSignals.relayer === 0n)
+  ) {
+    return 'the relayer is not an address or the relayer fee has no relayer'
+  }
+}
+
+/**
+ * Derive the mock proof elements from the public signals, so that a proof
+ * only verifies for the signals it was generated for
+ */
+function mockProof(publicSignals: WormholePublicSignalsArray): Groth16Proof {
+  const element = (i: number) =>
+    hexToBigInt(
+      sha256(
+        encodeAbiParameters(
+          [{ type: 'string' }, { type: 'uint256[8]' }, { type: 'uint8' }],
+          [MOCK_PROOF_TAG, publicSignals, i],
+        ),
+      ),
+    ) % SNARK_SCALAR_FIELD
+
+  return {
+    pA: [element(0), element(1)],
+    pB: [
+      [element(2), element(3)],
+      [element(4), element(5)],
+    ],
+    pC: [element(6), element(7)],
+  }
+}
+
+/**
+ * Deterministic prover for tests and local development. It checks in plain
+ * TypeScript what the circuit constrains, and its proofs only verify for the
+ * signals they were generated for, but they prove nothing on-chain: pair it
+ * with a mock verifier contract.
+ * @returns The mock prover
+ */
+export function createMockProver(): Prover {
+  return {
+    generateProof: async (witness) => {
+      const error = checkWitness(witness)
+      if (error) {
+        throw new Error(`The witness does not satisfy the circuit: ${error}`)
+      }
+
+      const publicSignals = toPublicSignalsArray(witness.publicSignals)
+      return { proof: mockProof(publicSignals), publicSignals }
+    },
+    verify: async ({ proof, publicSignals }) => {
+      const expected = mockProof(publicSignals)
+      return [
+        [proof.pA, expected.pA],
+        [proof.pC, expected.pC],
+        [proof.pB[0], expected.pB[0]],
+        [proof.pB[1], expected.pB[1]],
+      ].every(([a, b]) => a[0] === b[0] && a[1] === b[1])
+    },
+  }
+}
+
+/**
+ * Create the prover a config selects
+ * @param config - The backend, and its artifacts for Groth16
+ * @returns The prover
+ */
+export function createProver(config: ProverConfig): Prover {
+  switch (config.backend) {
+    case 'mock':
+      return createMockProver()
+    case 'groth16':
+      return createGroth16Prover(config)
+  }
+}
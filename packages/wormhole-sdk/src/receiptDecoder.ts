@@ -0,0 +1,178 @@
+import { RLP } from '@ethereumjs/rlp'
+import { bytesToBigInt } from '@ethereumjs/util'
+import {
+  Address,
+  bytesToHex,
+  decodeEventLog,
+  encodeEventTopics,
+  getAddress,
+  Hex,
+  hexToBytes,
+  isAddressEqual,
+} from 'viem'
+import { L2NativeSuperchainERC20Abi } from './abi/L2NativeSuperchainERC20Abi'
+
+/**
+ * Log decoded from an encoded receipt
+ */
+export type DecodedReceiptLog = {
+  // position of the log inside its receipt, not the block-wide logIndex
+  index: number
+  address: Address
+  topics: Hex[]
+  data: Hex
+}
+
+/**
+ * Receipt decoded from a receipt trie value
+ */
+export type DecodedReceipt = {
+  type: number
+  status: 'success' | 'reverted'
+  cumulativeGasUsed: bigint
+  logsBloom: Hex
+  logs: DecodedReceiptLog[]
+  // OP Stack deposit receipts only
+  depositNonce?: bigint
+  depositReceiptVersion?: bigint
+}
+
+/**
+ * ERC20 Transfer log found inside a decoded receipt
+ */
+export type DecodedTransferLog = {
+  log: DecodedReceiptLog
+  args: {
+    from: Address
+    to: Address
+    amount: bigint
+  }
+}
+
+/**
+ * Filters for finding Transfer logs inside a decoded receipt
+ */
+type FindTransferLogsArgs = {
+  token?: Address
+  from?: Address
+  to?: Address
+}
+
+const TRANSFER_TOPIC = encodeEventTopics({
+  abi: L2NativeSuperchainERC20Abi,
+  eventName: 'Transfer',
+})[0]
+
+function asBytes(item: unknown, field: string): Uint8Array {
+  if (!(item instanceof Uint8Array)) {
+    throw new Error(`Invalid receipt encoding: ${field} is not a byte string`)
+  }
+  return item
+}
+
+function asList(item: unknown, field: string): unknown[] {
+  if (!Array.isArray(item)) {
+    throw new Error(`Invalid receipt encoding: ${field} is not a list`)
+  }
+  return item
+}
+
+/**
+ * Decode a receipt trie value, the inverse of the receipt trie encoding.
+ * Typed receipts are prefixed with their EIP-2718 type byte, legacy ones are
+ * a bare RLP list.
+ * @param value - The encoded receipt, e.g. the leaf value of a receipt proof
+ * @returns The decoded receipt
+ */
+export function decodeReceipt(value: Hex | Uint8Array): DecodedReceipt {
+  const bytes = typeof value === 'string' ? hexToBytes(value) : value
+  if (bytes.length === 0) {
+    throw new Error('Invalid receipt encoding: empty value')
+  }
+
+  // RLP lists start at 0xc0, so anything below is a type prefix
+  const isTyped = bytes[0] < 0xc0
+  const type = isTyped ? bytes[0] : 0
+  const fields = asList(
+    RLP.decode(isTyped ? bytes.subarray(1) : bytes),
+    'receipt',
+  )
+
+  // Deposit receipts append depositNonce (Regolith) and depositReceiptVersion
+  // (Canyon). Trie leaves never carry the nonce alone, raw receipts might.
+  if (fields.length < 4 || fields.length > 6) {
+    throw new Error(
+      `Invalid receipt encoding: expected 4 to 6 fields, got ${fields.length}`,
+    )
+  }
+
+  const [status, cumulativeGasUsed, logsBloom, logs, ...depositFields] = fields
+
+  const receipt: DecodedReceipt = {
+    type,
+    status:
+      bytesToBigInt(asBytes(status, 'status')) === 1n ? 'success' : 'reverted',
+    cumulativeGasUsed: bytesToBigInt(
+      asBytes(cumulativeGasUsed, 'cumulativeGasUsed'),
+    ),
+    logsBloom: bytesToHex(asBytes(logsBloom, 'logsBloom')),
+    logs: asList(logs, 'logs').map((log, index) => {
+      const [address, topics, data] = asList(log, `logs[${index}]`)
+      return {
+        index,
+        address: getAddress(
+          bytesToHex(asBytes(address, `logs[${index}].address`)),
+        ),
+        topics: asList(topics, `logs[${index}].topics`).map((topic, i) =>
+          bytesToHex(asBytes(topic, `logs[${index}].topics[${i}]`)),
+        ),
+        data: bytesToHex(asBytes(data, `logs[${index}].data`)),
+      }
+    }),
+  }
+
+  if (depositFields.length > 0) {
+    receipt.depositNonce = bytesToBigInt(
+      asBytes(depositFields[0], 'depositNonce'),
+    )
+  }
+  if (depositFields.length > 1) {
+    receipt.depositReceiptVersion = bytesToBigInt(
+      asBytes(depositFields[1], 'depositReceiptVersion'),
+    )
+  }
+
+  return receipt
+}
+
+/**
+ * Find the ERC20 Transfer logs in a decoded receipt, e.g. the burn transfer to
+ * a wormhole address.
+ * @param receipt - The decoded receipt
+ * @param param1 - Optional token, sender and recipient filters
+ * @returns The matching Transfer logs with their decoded arguments
+ */
+export function findTransferLogs(
+  receipt: DecodedReceipt,
+  { token, from, to }: FindTransferLogsArgs = {},
+): DecodedTransferLog[] {
+  return receipt.logs.flatMap((log) => {
+    // Transfer has two indexed arguments, so three topics in total
+    if (log.topics[0] !== TRANSFER_TOPIC || log.topics.length !== 3) {
+      return []
+    }
+    if (token && !isAddressEqual(log.address, token)) return []
+
+    const { args } = decodeEventLog({
+      abi: L2NativeSuperchainERC20Abi,
+      eventName: 'Transfer',
+      topics: log.topics as [Hex, ...Hex[]],
+      data: log.data,
+    })
+
+    if (from && !isAddressEqual(args.from, from)) return []
+    if (to && !isAddressEqual(args.to, to)) return []
+
+    return [{ log, args }]
+  })
+}
@@ -0,0 +1,207 @@
+import { bytesToHex, Hex, hexToBytes, isAddressEqual } from 'viem'
+import { decodeReceipt, DecodedReceiptLog } from './receiptDecoder'
+import { buildReceiptTrie, RawRpcReceipt } from './receiptTrieProof'
+import { verifyReceiptProof } from './receiptTrieVerifier'
+import { rlpListSpans, RlpSpan } from './rlpSpans'
+
+/**
+ * Selects one log of a receipt, either by its position inside the receipt or
+ * by its topics, with eth_getLogs filter semantics: a null topic matches any
+ * value, a list matches any of its values and missing trailing topics match
+ * anything too.
+ */
+export type ReceiptLogSelector =
+  | { logIndex: number }
+  | { topics: Array<Hex | Hex[] | null> }
+
+/**
+ * Position and decoded values of one log inside an encoded receipt. Offsets
+ * are relative to the encoded receipt, type byte included, so add
+ * `leafValueOffset` of the receipt proof witness to index the leaf node.
+ */
+export type ReceiptLogWitness = {
+  // position of the log inside its receipt, not the block-wide logIndex
+  logIndex: number
+  // offset and length of the whole log RLP list
+  logOffset: number
+  logLength: number
+  // offset of the 20 address bytes
+  addressOffset: number
+  // offset of the 32 bytes of each topic, in order
+  topicOffsets: number[]
+  // offset and length of the data bytes
+  dataOffset: number
+  dataLength: number
+  log: DecodedReceiptLog
+}
+
+/**
+ * Arguments for building a receipt proof narrowed down to one log
+ */
+type BuildReceiptLogProofArgs = {
+  receipts: RawRpcReceipt[]
+  targetTxIndex: Hex
+  log: ReceiptLogSelector
+}
+
+/**
+ * Return type for building a receipt proof narrowed down to one log
+ */
+type BuildReceiptLogProofReturn = {
+  rootHash: Hex
+  key: Hex
+  proofNodes: Hex[]
+  // the encoded receipt the log offsets point into
+  value: Hex
+  log: ReceiptLogWitness
+}
+
+/**
+ * Arguments for verifying a log witness against an encoded receipt
+ */
+type VerifyReceiptLogWitnessArgs = {
+  value: Hex | Uint8Array
+  log: ReceiptLogWitness
+}
+
+function selectLogIndex(
+  logs: DecodedReceiptLog[],
+  selector: ReceiptLogSelector,
+): number {
+  if ('logIndex' in selector) {
+    if (selector.logIndex < 0 || selector.logIndex >= logs.length) {
+      throw new Error(
+        `Log index ${selector.logIndex} is out of range, the receipt has ${logs.length} logs`,
+      )
+    }
+    return selector.logIndex
+  }
+
+  const matches = logs.filter((log) =>
+    selector.topics.every((topic, i) => {
+      if (topic === null) return true
+      const options = Array.isArray(topic) ? topic : [topic]
+      return options.some(
+        (option) => log.topics[i]?.toLowerCase() === option.toLowerCase(),
+      )
+    }),
+  )
+  if (matches.length === 0) {
+    throw new Error('No log of the receipt matches the given topics')
+  }
+  // Picking the first match could silently constrain the wrong log
+  if (matches.length > 1) {
+    throw new Error(
+      `${matches.length} logs of the receipt match the given topics, select one by logIndex`,
+    )
+  }
+  return matches[0].index
+}
+
+/**
+ * Locate the log list items of an encoded receipt
+ */
+function logSpans(bytes: Uint8Array): RlpSpan[] {
+  // RLP lists start at 0xc0, so anything below is a type prefix
+  const fields = rlpListSpans(bytes, bytes[0] < 0xc0 ? 1 : 0)
+  return rlpListSpans(bytes, fields[3].offset)
+}
+
+/**
+ * Locate one log inside an encoded receipt, so that a circuit can constrain
+ * its address, topics and data in place.
+ * @param value - The encoded receipt, e.g. the leaf value of a receipt proof
+ * @param selector - The log to locate, by index or by topics
+ * @returns The byte offsets of the log fields and their decoded values
+ */
+export function getReceiptLogWitness(
+  value: Hex | Uint8Array,
+  selector: ReceiptLogSelector,
+): ReceiptLogWitness {
+  const bytes = typeof value === 'string' ? hexToBytes(value) : value
+  const { logs } = decodeReceipt(bytes)
+  const logIndex = selectLogIndex(logs, selector)
+
+  const logSpan = logSpans(bytes)[logIndex]
+  const [address, topics, data] = rlpListSpans(bytes, logSpan.offset)
+
+  return {
+    logIndex,
+    logOffset: logSpan.offset,
+    logLength: logSpan.payloadOffset + logSpan.payloadLength - logSpan.offset,
+    addressOffset: address.payloadOffset,
+    topicOffsets: rlpListSpans(bytes, topics.offset).map(
+      ({ payloadOffset }) => payloadOffset,
+    ),
+    dataOffset: data.payloadOffset,
+    dataLength: data.payloadLength,
+    log: logs[logIndex],
+  }
+}
+
+/**
+ * Build a receipt proof and locate one of the receipt's logs in the proven
+ * value.
+ * @param param0 - The block receipts, the transaction index to prove and the
+ * log to locate
+ * @returns The receipt proof, the proven receipt and the log witness
+ */
+export async function buildReceiptLogProof({
+  receipts,
+  targetTxIndex,
+  log,
+}: BuildReceiptLogProofArgs): Promise<BuildReceiptLogProofReturn> {
+  const proof = await buildReceiptTrie({ receipts, targetTxIndex })
+  const { value } = verifyReceiptProof(proof)
+
+  return {
+    ...proof,
+    value,
+    log: getReceiptLogWitness(value, log),
+  }
+}
+
+/**
+ * Check that a log witness points at the values it claims inside an encoded
+ * receipt, e.g. the value returned by `verifyReceiptProof`.
+ * @param param0 - The encoded receipt and the log witness
+ */
+export function verifyReceiptLogWitness({
+  value,
+  log,
+}: VerifyReceiptLogWitnessArgs): void {
+  const bytes = typeof value === 'string' ? hexToBytes(value) : value
+  const expected = getReceiptLogWitness(bytes, { logIndex: log.logIndex })
+
+  const read = (offset: number, length: number) =>
+    bytesToHex(bytes.subarray(offset, offset + length))
+
+  if (
+    log.logOffset !== expected.logOffset ||
+    log.logLength !== expected.logLength ||
+    log.addressOffset !== expected.addressOffset ||
+    log.dataOffset !== expected.dataOffset ||
+    log.dataLength !== expected.dataLength ||
+    log.topicOffsets.length !== expected.topicOffsets.length ||
+    log.topicOffsets.some((offset, i) => offset !== expected.topicOffsets[i])
+  ) {
+    throw new Error(
+      `Invalid log witness: offsets do not match log ${log.logIndex} of the receipt`,
+    )
+  }
+
+  if (!isAddressEqual(read(log.addressOffset, 20), log.log.address)) {
+    throw new Error('Invalid log witness: address does not match')
+  }
+  if (
+    log.log.topics.length !== log.topicOffsets.length ||
+    log.topicOffsets.some(
+      (offset, i) => read(offset, 32) !== log.log.topics[i].toLowerCase(),
+    )
+  ) {
+    throw new Error('Invalid log witness: topics do not match')
+  }
+  if (read(log.dataOffset, log.dataLength) !== log.log.data.toLowerCase()) {
+    throw new Error('Invalid log witness: data does not match')
+  }
+}
@@ -0,0 +1,198 @@
+import { Hex, hexToBytes } from 'viem'
+import { rlpListSpans, RlpSpan } from './rlpSpans'
+import {
+  bytesToNibbles,
+  decodeHexPrefix,
+  verifyTrieProof,
+} from './receiptTrieVerifier'
+
+/**
+ * Fixed sizes the circuit is compiled with
+ */
+export type TrieProofWitnessBounds = {
+  // maximum number of proof nodes, leaf included
+  maxDepth: number
+  // maximum length of a single proof node, in bytes
+  maxNodeLength: number
+  // maximum length of the trie key, e.g. the RLP-encoded transaction index,
+  // in bytes
+  maxKeyLength: number
+}
+
+export type ReceiptProofWitnessBounds = TrieProofWitnessBounds
+
+/**
+ * Default bounds: branch nodes are at most 532 bytes, but the leaf node holds
+ * the whole receipt, so leave room for a few logs. A 3 byte key covers
+ * transaction indexes up to 0xffff.
+ */
+export const DEFAULT_RECEIPT_PROOF_WITNESS_BOUNDS: ReceiptProofWitnessBounds = {
+  maxDepth: 8,
+  maxNodeLength: 1024,
+  maxKeyLength: 3,
+}
+
+/**
+ * Arguments for formatting a receipt proof witness
+ */
+type FormatReceiptProofWitnessArgs = {
+  rootHash: Hex
+  key: Hex
+  proofNodes: Hex[]
+  bounds?: Partial<ReceiptProofWitnessBounds>
+}
+
+/**
+ * Arguments for formatting the witness of any trie proof
+ */
+type FormatTrieProofWitnessArgs = Omit<
+  FormatReceiptProofWitnessArgs,
+  'bounds'
+> & {
+  bounds: TrieProofWitnessBounds
+  // names the trie in error messages
+  trieName: string
+}
+
+/**
+ * Trie proof inputs padded to the circuit's fixed sizes
+ */
+export type TrieProofWitness = {
+  rootHash: number[]
+  // proof nodes, each padded with zeros to maxNodeLength, padded to maxDepth
+  nodes: number[][]
+  nodeLengths: number[]
+  depth: number
+  keyNibbles: number[]
+  keyNibblesLength: number
+  // offset inside nodes[i] of the 32 byte hash of nodes[i + 1], 0 past the leaf
+  childHashOffsets: number[]
+  // offset and length of the receipt inside the leaf node
+  leafValueOffset: number
+  leafValueLength: number
+}
+
+export type ReceiptProofWitness = TrieProofWitness
+
+function padBytes(bytes: Uint8Array, length: number): number[] {
+  const padded = new Array<number>(length).fill(0)
+  bytes.forEach((byte, i) => (padded[i] = byte))
+  return padded
+}
+
+/**
+ * Format a trie proof into fixed-size inputs for an inclusion circuit. The
+ * proof is verified first, so a witness is only produced for proofs the
+ * circuit can accept.
+ * @param param0 - The proof, the circuit bounds and the name of the trie
+ * @returns The padded circuit inputs
+ */
+export function formatTrieProofWitness({
+  rootHash,
+  key,
+  proofNodes,
+  bounds: { maxDepth, maxNodeLength, maxKeyLength },
+  trieName,
+}: FormatTrieProofWitnessArgs): TrieProofWitness {
+  const name = trieName[0].toUpperCase() + trieName.slice(1)
+
+  verifyTrieProof({ rootHash, key, proofNodes }, trieName)
+
+  const keyBytes = hexToBytes(key)
+  if (keyBytes.length > maxKeyLength) {
+    throw new Error(
+      `${name} proof key is ${keyBytes.length} bytes, exceeds maxKeyLength ${maxKeyLength}`,
+    )
+  }
+  if (proofNodes.length > maxDepth) {
+    throw new Error(
+      `${name} proof depth ${proofNodes.length} exceeds maxDepth ${maxDepth}`,
+    )
+  }
+
+  const nodes = proofNodes.map((node) => hexToBytes(node))
+  nodes.forEach((node, i) => {
+    if (node.length > maxNodeLength) {
+      throw new Error(
+        `${name} proof node ${i} is ${node.length} bytes, exceeds maxNodeLength ${maxNodeLength}`,
+      )
+    }
+  })
+
+  const keyNibbles = bytesToNibbles(keyBytes)
+  const childHashOffsets = new Array<number>(maxDepth).fill(0)
+  let nibbleIndex = 0
+  let leafValueOffset = 0
+  let leafValueLength = 0
+
+  nodes.forEach((node, i) => {
+    const items = rlpListSpans(node)
+    const isLastNode = i === nodes.length - 1
+
+    let child: RlpSpan
+    if (items.length === 17) {
+      child =
+        nibbleIndex === keyNibbles.length
+          ? items[16]
+          : items[keyNibbles[nibbleIndex++]]
+    } else {
+      const path = node.subarray(
+        items[0].payloadOffset,
+        items[0].payloadOffset + items[0].payloadLength,
+      )
+      nibbleIndex += decodeHexPrefix(path).path.length
+      child = items[1]
+    }
+
+    if (isLastNode) {
+      leafValueOffset = child.payloadOffset
+      leafValueLength = child.payloadLength
+      return
+    }
+
+    // The verifier already checked the hashes, this only rules out embedded
+    // nodes, which the circuit does not open
+    if (child.isList || child.payloadLength !== 32) {
+      throw new Error(
+        `${name} proof node ${i} embeds its child, which the circuit does not support`,
+      )
+    }
+    childHashOffsets[i] = child.payloadOffset
+  })
+
+  return {
+    rootHash: Array.from(hexToBytes(rootHash)),
+    nodes: Array.from({ length: maxDepth }, (_, i) =>
+      padBytes(nodes[i] ?? new Uint8Array(), maxNodeLength),
+    ),
+    nodeLengths: Array.from(
+      { length: maxDepth },
+      (_, i) => nodes[i]?.length ?? 0,
+    ),
+    depth: nodes.length,
+    keyNibbles: padBytes(Uint8Array.from(keyNibbles), 2 * maxKeyLength),
+    keyNibblesLength: keyNibbles.length,
+    childHashOffsets,
+    leafValueOffset,
+    leafValueLength,
+  }
+}
+
+/**
+ * Format a receipt proof into fixed-size inputs for the receipt inclusion
+ * circuit. The proof is verified first, so a witness is only produced for
+ * proofs the circuit can accept.
+ * @param param0 - The proof, as returned by `buildReceiptTrie`, and optional
+ * circuit bounds
+ * @returns The padded circuit inputs
+ */
+export function formatReceiptProofWitness({
+  bounds,
+  ...proof
+}: FormatReceiptProofWitnessArgs): ReceiptProofWitness {
+  return formatTrieProofWitness({
+    ...proof,
+    bounds: { ...DEFAULT_RECEIPT_PROOF_WITNESS_BOUNDS, ...bounds },
+    trieName: 'receipt',
+  })
+}
@@ -0,0 +1,221 @@
+import { MerklePatriciaTrie } from '@ethereumjs/mpt'
+import { RLP } from '@ethereumjs/rlp'
+import { TransactionType } from '@ethereumjs/tx'
+import { concatBytes, intToBytes } from '@ethereumjs/util'
+import { bytesToHex, Hex } from 'viem'
+import {
+  createIndexedProof,
+  createIndexedTrie,
+  IndexedTrieProof,
+} from './indexedTrie'
+
+/**
+ * Raw receipt format from eth_getBlockReceipts RPC call
+ * This not necesarily match the TransactionReceipt type from viem or ethereumjs
+ */
+export type RawRpcReceipt = {
+  status: Hex // "0x1" or "0x0"
+  cumulativeGasUsed: Hex
+  logsBloom: Hex
+  logs: Array<{
+    address: Hex
+    topics: Hex[]
+    data: Hex
+  }>
+  type: Hex // "0x0", "0x1", "0x2", etc.
+  transactionIndex: Hex
+  // OP Stack deposit receipts only (type "0x7e")
+  depositNonce?: Hex // set since Regolith
+  depositReceiptVersion?: Hex // set since Canyon
+}
+
+/**
+ * OP Stack deposit transaction type, not part of ethereumjs' TransactionType
+ */
+export const DEPOSIT_TX_TYPE = 0x7e
+
+/**
+ * Arguments for building a receipt trie
+ */
+type BuildReceiptTrieArgs = {
+  receipts: RawRpcReceipt[]
+  targetTxIndex: Hex
+}
+
+/**
+ * Return type for building a receipt trie
+ */
+type BuildReceiptTrieReturn = IndexedTrieProof
+
+/**
+ * Arguments for proving several transactions of the same block
+ */
+type BuildReceiptTrieProofsArgs = {
+  receipts: RawRpcReceipt[]
+  targetTxIndexes: Hex[]
+}
+
+/**
+ * Return type for building a receipt trie multiproof
+ */
+type BuildReceiptTrieMultiproofReturn = {
+  rootHash: Hex
+  // each distinct proof node, stored once
+  nodes: Hex[]
+  proofs: Array<{
+    key: Hex
+    // indexes into nodes, from the root down to the leaf
+    nodeIndexes: number[]
+  }>
+}
+
+/**
+ * Encode a raw RPC receipt for the receipt trie
+ */
+export function encodeRPCReceipt(receipt: RawRpcReceipt): Uint8Array {
+  const txType = Number(receipt.type)
+
+  const logs = receipt.logs.map((log) => [
+    log.address,
+    log.topics.map((topic) => topic),
+    log.data,
+  ])
+
+  const fields = [
+    // zk-wormholes txs happen after byzantium, so status field exists
+    receipt.status === '0x1' ? Uint8Array.from([1]) : Uint8Array.from([]),
+    // quantities go through BigInt so that zero encodes as the empty string
+    BigInt(receipt.cumulativeGasUsed),
+    receipt.logsBloom,
+    logs,
+  ]
+
+  // Regolith added depositNonce to deposit receipts but left it out of the
+  // receipts root. Canyon added depositReceiptVersion and, from then on, both
+  // fields are part of the encoding whenever the version is present.
+  if (txType === DEPOSIT_TX_TYPE && receipt.depositReceiptVersion) {
+    if (!receipt.depositNonce) {
+      throw new Error(
+        `Deposit receipt ${receipt.transactionIndex} has a depositReceiptVersion but no depositNonce`,
+      )
+    }
+    fields.push(
+      BigInt(receipt.depositNonce),
+      BigInt(receipt.depositReceiptVersion),
+    )
+  }
+
+  const encoded = RLP.encode(fields)
+
+  // Legacy transactions (type 0) are NOT prefixed with type byte
+  if (txType === TransactionType.Legacy) {
+    return encoded
+  }
+
+  return concatBytes(intToBytes(txType), encoded)
+}
+
+/**
+ * Insert every receipt into a fresh Merkle Patricia Trie, keyed by the RLP of
+ * its transaction index
+ */
+function createReceiptTrie(
+  receipts: RawRpcReceipt[],
+): Promise<MerklePatriciaTrie> {
+  return createIndexedTrie(receipts, encodeRPCReceipt)
+}
+
+/**
+ * Build a Merkle Patricia Trie from the given receipts.
+ * @param param0 - The arguments for building the receipt trie.
+ * @returns The return values of a receipt trie
+ */
+export async function buildReceiptTrie({
+  receipts,
+  targetTxIndex,
+}: BuildReceiptTrieArgs): Promise<BuildReceiptTrieReturn> {
+  const trie = await createReceiptTrie(receipts)
+
+  return createIndexedProof(trie, targetTxIndex)
+}
+
+/**
+ * Build the receipt trie of a block once and prove several transactions
+ * against it.
+ * @param param0 - The block receipts and the transaction indexes to prove.
+ * @returns One proof per target index, in the same order
+ */
+export async function buildReceiptTrieProofs({
+  receipts,
+  targetTxIndexes,
+}: BuildReceiptTrieProofsArgs): Promise<BuildReceiptTrieReturn[]> {
+  const trie = await createReceiptTrie(receipts)
+
+  const proofs: BuildReceiptTrieReturn[] = []
+  for (const targetTxIndex of targetTxIndexes) {
+    proofs.push(await createIndexedProof(trie, targetTxIndex))
+  }
+
+  return proofs
+}
+
+/**
+ * Build the receipt trie of a block once and prove several transactions with
+ * a multiproof, where branch nodes shared between proofs are stored once.
+ * @param param0 - The block receipts and the transaction indexes to prove.
+ * @returns The deduplicated nodes and, per target index, the nodes of its proof
+ */
+export async function buildReceiptTrieMultiproof({
+  receipts,
+  targetTxIndexes,
+}: BuildReceiptTrieProofsArgs): Promise<BuildReceiptTrieMultiproofReturn> {
+  const trie = await createReceiptTrie(receipts)
+
+  const nodes: Hex[] = []
+  const nodeIndexByHex = new Map<Hex, number>()
+  const proofs: BuildReceiptTrieMultiproofReturn['proofs'] = []
+
+  for (const targetTxIndex of targetTxIndexes) {
+    const { key, proofNodes } = await createIndexedProof(trie, targetTxIndex)
+
+    const nodeIndexes = proofNodes.map((node) => {
+      let index = nodeIndexByHex.get(node)
+      if (index === undefined) {
+        index = nodes.push(node) - 1
+        nodeIndexByHex.set(node, index)
+      }
+      return index
+    })
+
+    proofs.push({ key, nodeIndexes })
+  }
+
+  return {
+    rootHash: bytesToHex(trie.root()),
+    nodes,
+    proofs,
+  }
+}
+
+/**
+ * Expand a multiproof back into standalone proofs, e.g. to check them with
+ * `verifyReceiptProof`.
+ * @param multiproof - The multiproof from `buildReceiptTrieMultiproof`
+ * @returns One proof per target index, in the multiproof order
+ */
+export function expandReceiptTrieMultiproof({
+  rootHash,
+  nodes,
+  proofs,
+}: BuildReceiptTrieMultiproofReturn): BuildReceiptTrieReturn[] {
+  return proofs.map(({ key, nodeIndexes }) => ({
+    rootHash,
+    key,
+    proofNodes: nodeIndexes.map((index) => {
+      if (index >= nodes.length) {
+        throw new Error(`Multiproof node index ${index} is out of range`)
+      }
+      return nodes[index]
+    }),
+  }))
+}
@@ -0,0 +1,166 @@
+import { RLP } from '@ethereumjs/rlp'
+import type { NestedUint8Array } from '@ethereumjs/rlp'
+import { bytesToHex, Hex, hexToBytes, keccak256 } from 'viem'
+import { decodeReceipt, DecodedReceipt } from './receiptDecoder'
+
+/**
+ * Arguments for verifying a trie proof, e.g. a receipt proof
+ */
+type VerifyTrieProofArgs = {
+  rootHash: Hex
+  key: Hex
+  proofNodes: Hex[]
+}
+
+/**
+ * Return type for verifying a receipt proof
+ */
+type VerifyReceiptProofReturn = {
+  value: Hex
+  receipt: DecodedReceipt
+}
+
+type TrieNode = Uint8Array | NestedUint8Array
+
+/**
+ * Split bytes into 4-bit nibbles, high nibble first
+ */
+export function bytesToNibbles(bytes: Uint8Array): number[] {
+  const nibbles: number[] = []
+  for (const byte of bytes) {
+    nibbles.push(byte >> 4, byte & 0x0f)
+  }
+  return nibbles
+}
+
+/**
+ * Decode a hex-prefix encoded path from a leaf or extension node
+ */
+export function decodeHexPrefix(encodedPath: Uint8Array): {
+  path: number[]
+  isLeaf: boolean
+} {
+  if (encodedPath.length === 0) {
+    throw new Error('Invalid trie proof: empty node path')
+  }
+
+  const nibbles = bytesToNibbles(encodedPath)
+  const flag = nibbles[0]
+  if (flag > 3) {
+    throw new Error(`Invalid trie proof: bad hex-prefix flag ${flag}`)
+  }
+
+  const isOdd = (flag & 1) === 1
+  if (!isOdd && nibbles[1] !== 0) {
+    throw new Error('Invalid trie proof: bad hex-prefix padding')
+  }
+
+  return {
+    path: nibbles.slice(isOdd ? 1 : 2),
+    isLeaf: flag >= 2,
+  }
+}
+
+function startsWith(nibbles: number[], prefix: number[]): boolean {
+  return prefix.every((nibble, i) => nibbles[i] === nibble)
+}
+
+/**
+ * Verify a Merkle Patricia Trie proof by walking its nodes from the root down
+ * to the leaf.
+ * @param param0 - The root, the key and the proof nodes from the root down
+ * @param trieName - Names the trie in error messages
+ * @returns The proven leaf value
+ */
+export function verifyTrieProof(
+  { rootHash, key, proofNodes }: VerifyTrieProofArgs,
+  trieName = 'receipt',
+): Hex {
+  const fail = (reason: string) =>
+    new Error(`Invalid ${trieName} proof: ${reason}`)
+  let nibbles = bytesToNibbles(hexToBytes(key))
+  let expectedHash: Hex = rootHash
+
+  for (let i = 0; i < proofNodes.length; i++) {
+    const nodeHash = keccak256(proofNodes[i])
+    if (nodeHash !== expectedHash.toLowerCase()) {
+      throw fail(
+        `node ${i} hash ${nodeHash} does not match expected ${expectedHash}`,
+      )
+    }
+
+    let node: TrieNode = RLP.decode(hexToBytes(proofNodes[i]))
+    const isLastNode = i === proofNodes.length - 1
+
+    // Nodes shorter than 32 bytes are embedded in their parent instead of
+    // being referenced by hash, so keep walking inside the same proof node.
+    for (;;) {
+      if (!Array.isArray(node)) {
+        throw fail(`node ${i} is not a list`)
+      }
+
+      let child: TrieNode
+      if (node.length === 17) {
+        if (nibbles.length === 0) {
+          child = node[16]
+          if (child.length === 0) {
+            throw fail('key not found in trie')
+          }
+          if (!isLastNode) {
+            throw fail('extra nodes after leaf')
+          }
+          return bytesToHex(child as Uint8Array)
+        }
+        child = node[nibbles[0]]
+        nibbles = nibbles.slice(1)
+      } else if (node.length === 2) {
+        const { path, isLeaf } = decodeHexPrefix(node[0] as Uint8Array)
+        if (!startsWith(nibbles, path)) {
+          throw fail('key not found in trie')
+        }
+        nibbles = nibbles.slice(path.length)
+
+        if (isLeaf) {
+          if (nibbles.length !== 0) {
+            throw fail('key not found in trie')
+          }
+          if (!isLastNode) {
+            throw fail('extra nodes after leaf')
+          }
+          return bytesToHex(node[1] as Uint8Array)
+        }
+        child = node[1]
+      } else {
+        throw fail(`node ${i} has ${node.length} items`)
+      }
+
+      if (Array.isArray(child)) {
+        node = child
+        continue
+      }
+      if (child.length === 0) {
+        throw fail('key not found in trie')
+      }
+      if (child.length !== 32) {
+        throw fail(`bad child reference in ${i}`)
+      }
+      expectedHash = bytesToHex(child)
+      break
+    }
+  }
+
+  throw fail('proof is truncated')
+}
+
+/**
+ * Verify a receipt Merkle Patricia Trie proof by walking its nodes from the
+ * root down to the leaf.
+ * @param param0 - The proof, as returned by `buildReceiptTrie`.
+ * @returns The proven leaf value and the receipt decoded from it
+ */
+export function verifyReceiptProof(
+  proof: VerifyTrieProofArgs,
+): VerifyReceiptProofReturn {
+  const value = verifyTrieProof(proof)
+  return { value, receipt: decodeReceipt(value) }
+}
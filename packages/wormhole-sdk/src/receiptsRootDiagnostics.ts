@@ -0,0 +1,279 @@
+import { TransactionType } from '@ethereumjs/tx'
+import { bytesToHex, Hex, hexToBytes, keccak256 } from 'viem'
+import {
+  buildReceiptTrie,
+  DEPOSIT_TX_TYPE,
+  encodeRPCReceipt,
+  RawRpcReceipt,
+} from './receiptTrieProof'
+import { decodeReceipt, DecodedReceipt } from './receiptDecoder'
+
+/**
+ * Arguments for diagnosing a receipts root mismatch
+ */
+type DiagnoseReceiptsRootArgs = {
+  receipts: RawRpcReceipt[]
+  expectedRoot: Hex
+  // consensus-encoded receipts, e.g. from debug_getRawReceipts, in tx order
+  rawReceipts?: Hex[]
+}
+
+/**
+ * A receipt field that probably makes the computed root differ
+ */
+export type ReceiptIssue = {
+  transactionIndex: number
+  field: string
+  message: string
+}
+
+/**
+ * Report of a receipts root diagnosis
+ */
+export type ReceiptsRootDiagnostics = {
+  computedRoot: Hex
+  expectedRoot: Hex
+  matches: boolean
+  issues: ReceiptIssue[]
+}
+
+const SUPPORTED_TX_TYPES = new Set<number>([
+  ...Object.values(TransactionType),
+  DEPOSIT_TX_TYPE,
+])
+
+/**
+ * Compute the 2048 bit bloom filter of a list of logs, as defined in the
+ * yellow paper: each address and topic sets three bits of the filter
+ */
+export function computeLogsBloom(logs: RawRpcReceipt['logs']): Hex {
+  const bloom = new Uint8Array(256)
+
+  for (const { address, topics } of logs) {
+    for (const value of [address, ...topics]) {
+      const hash = hexToBytes(keccak256(value))
+      for (let i = 0; i < 6; i += 2) {
+        const bit = ((hash[i] << 8) | hash[i + 1]) & 2047
+        bloom[255 - Math.floor(bit / 8)] |= 1 << bit % 8
+      }
+    }
+  }
+
+  return bytesToHex(bloom)
+}
+
+/**
+ * Name the fields that differ between two decodings of the same receipt
+ */
+function diffDecodedReceipts(
+  ours: DecodedReceipt,
+  theirs: DecodedReceipt,
+): string[] {
+  const fields: string[] = []
+  if (ours.type !== theirs.type) fields.push('type')
+  if (ours.status !== theirs.status) fields.push('status')
+  if (ours.cumulativeGasUsed !== theirs.cumulativeGasUsed) {
+    fields.push('cumulativeGasUsed')
+  }
+  if (ours.logsBloom !== theirs.logsBloom) fields.push('logsBloom')
+  if (ours.depositNonce !== theirs.depositNonce) fields.push('depositNonce')
+  if (ours.depositReceiptVersion !== theirs.depositReceiptVersion) {
+    fields.push('depositReceiptVersion')
+  }
+
+  if (ours.logs.length !== theirs.logs.length) {
+    fields.push('logs')
+  } else {
+    ours.logs.forEach((log, i) => {
+      const other = theirs.logs[i]
+      if (log.address.toLowerCase() !== other.address.toLowerCase()) {
+        fields.push(`logs[${i}].address`)
+      }
+      if (log.topics.join() !== other.topics.join()) {
+        fields.push(`logs[${i}].topics`)
+      }
+      if (log.data !== other.data) fields.push(`logs[${i}].data`)
+    })
+  }
+
+  return fields
+}
+
+/**
+ * Check a single receipt on its own, without any other source
+ */
+function checkReceipt(receipt: RawRpcReceipt, index: number): ReceiptIssue[] {
+  const issues: ReceiptIssue[] = []
+  const issue = (field: string, message: string) =>
+    issues.push({ transactionIndex: index, field, message })
+
+  const txType = Number(receipt.type)
+  if (!SUPPORTED_TX_TYPES.has(txType)) {
+    issue('type', `unsupported transaction type ${receipt.type}`)
+  }
+
+  if (receipt.status !== '0x0' && receipt.status !== '0x1') {
+    issue('status', `unexpected status ${receipt.status}`)
+  }
+
+  const logsBloom = computeLogsBloom(receipt.logs)
+  if (logsBloom !== receipt.logsBloom.toLowerCase()) {
+    issue('logsBloom', 'logsBloom does not match the bloom of its logs')
+  }
+
+  if (txType === DEPOSIT_TX_TYPE) {
+    if (receipt.depositReceiptVersion && !receipt.depositNonce) {
+      issue('depositNonce', 'deposit receipt has a version but no nonce')
+    }
+  } else if (receipt.depositNonce || receipt.depositReceiptVersion) {
+    issue('depositNonce', 'non-deposit receipt carries deposit fields')
+  }
+
+  return issues
+}
+
+/**
+ * Compare a receipt with its consensus encoding, with one issue per field
+ * that differs
+ */
+function compareRawReceipt(
+  receipt: RawRpcReceipt,
+  rawReceipt: Hex,
+): ReceiptIssue[] {
+  const encoded = bytesToHex(encodeRPCReceipt(receipt))
+  if (encoded === rawReceipt.toLowerCase()) return []
+
+  const transactionIndex = Number(receipt.transactionIndex)
+  const ours = decodeReceipt(encoded)
+  const theirs = decodeReceipt(rawReceipt)
+  // Before Canyon the trie leaves depositNonce out even where the raw
+  // receipt keeps it, so that difference alone is expected
+  const preCanyon =
+    ours.depositReceiptVersion === undefined &&
+    theirs.depositReceiptVersion === undefined
+  const fields = diffDecodedReceipts(ours, theirs).filter(
+    (field) => !preCanyon || field !== 'depositNonce',
+  )
+  const issues = fields.map((field) => ({
+    transactionIndex,
+    field,
+    message: `${field} differs from the raw receipt`,
+  }))
+
+  // Same decoded fields but different bytes: the encoding itself differs,
+  // e.g. a quantity with leading zeros
+  const expectedDifference =
+    preCanyon && ours.depositNonce !== theirs.depositNonce
+  if (fields.length === 0 && !expectedDifference) {
+    issues.push({
+      transactionIndex,
+      field: 'encoding',
+      message:
+        'encoded receipt bytes differ from the raw receipt with equal fields',
+    })
+  }
+
+  return issues
+}
+
+/**
+ * Diagnose why the receipts root computed by `buildReceiptTrie` differs from
+ * the block's receiptsRoot. Every receipt is checked on its own (known type,
+ * logsBloom recomputed from its logs), against its neighbours
+ * (transactionIndex sequence, cumulativeGasUsed monotonicity) and, when raw
+ * receipts are given, against its consensus encoding. Each check reports its
+ * own issues, so that one receipt can show several.
+ * @param param0 - The receipts, the block's receiptsRoot and optional raw
+ * receipts to compare against
+ * @returns The computed root and the receipt fields that probably cause a
+ * mismatch
+ */
+export async function diagnoseReceiptsRoot({
+  receipts,
+  expectedRoot,
+  rawReceipts,
+}: DiagnoseReceiptsRootArgs): Promise<ReceiptsRootDiagnostics> {
+  const { rootHash: computedRoot } = await buildReceiptTrie({
+    receipts,
+    targetTxIndex: '0x0',
+  })
+
+  const issues: ReceiptIssue[] = []
+
+  receipts.forEach((receipt, i) => {
+    const transactionIndex = Number(receipt.transactionIndex)
+    if (transactionIndex !== i) {
+      issues.push({
+        transactionIndex,
+        field: 'transactionIndex',
+        message: `receipt at position ${i} has transactionIndex ${transactionIndex}`,
+      })
+    }
+
+    issues.push(...checkReceipt(receipt, transactionIndex))
+
+    const previous = receipts[i - 1]
+    if (
+      previous &&
+      BigInt(receipt.cumulativeGasUsed) < BigInt(previous.cumulativeGasUsed)
+    ) {
+      issues.push({
+        transactionIndex,
+        field: 'cumulativeGasUsed',
+        message: `cumulativeGasUsed ${BigInt(receipt.cumulativeGasUsed)} is lower than the previous receipt's ${BigInt(previous.cumulativeGasUsed)}`,
+      })
+    }
+  })
+
+  if (rawReceipts) {
+    if (rawReceipts.length !== receipts.length) {
+      issues.push({
+        transactionIndex: Math.min(rawReceipts.length, receipts.length),
+        field: 'receipts',
+        message: `${receipts.length} receipts but ${rawReceipts.length} raw receipts`,
+      })
+    }
+
+    receipts.forEach((receipt, i) => {
+      if (rawReceipts[i]) {
+        issues.push(...compareRawReceipt(receipt, rawReceipts[i]))
+      }
+    })
+  }
+
+  return {
+    computedRoot,
+    expectedRoot,
+    matches: computedRoot === expectedRoot.toLowerCase(),
+    issues,
+  }
+}
+
+/**
+ * Render a diagnosis as a human readable report, e.g. for a test failure
+ * message
+ * @param diagnostics - The diagnosis from `diagnoseReceiptsRoot`
+ * @returns The report
+ */
+export function formatReceiptsRootDiagnostics({
+  computedRoot,
+  expectedRoot,
+  matches,
+  issues,
+}: ReceiptsRootDiagnostics): string {
+  const lines = [
+    matches
+      ? `receipts root ${computedRoot} matches`
+      : `computed receipts root ${computedRoot} does not match ${expectedRoot}`,
+    ...issues.map(
+      ({ transactionIndex, field, message }) =>
+        `  receipt ${transactionIndex}, ${field}: ${message}`,
+    ),
+  ]
+
+  if (!matches && issues.length === 0) {
+    lines.push('  no receipt looks wrong, check for missing receipts')
+  }
+
+  return lines.join('\n')
+}
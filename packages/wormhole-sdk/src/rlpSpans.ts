@@ -0,0 +1,102 @@
+/**
+ * Position of an RLP item inside its encoding
+ */
+export type RlpSpan = {
+  // offset of the item prefix
+  offset: number
+  // offset of the item payload, right after the prefix
+  payloadOffset: number
+  payloadLength: number
+  isList: boolean
+}
+
+function readLength(bytes: Uint8Array, offset: number, size: number): number {
+  if (size > 4 || offset + size > bytes.length) {
+    throw new Error(`Invalid RLP: bad length prefix at offset ${offset}`)
+  }
+  let length = 0
+  for (let i = 0; i < size; i++) {
+    length = length * 256 + bytes[offset + i]
+  }
+  return length
+}
+
+/**
+ * Locate the RLP item starting at the given offset
+ * @param bytes - The RLP encoding
+ * @param offset - The offset of the item prefix
+ * @returns The span of the item
+ */
+export function rlpSpanAt(bytes: Uint8Array, offset = 0): RlpSpan {
+  if (offset >= bytes.length) {
+    throw new Error(`Invalid RLP: offset ${offset} is out of bounds`)
+  }
+
+  const prefix = bytes[offset]
+  let span: RlpSpan
+  if (prefix < 0x80) {
+    span = { offset, payloadOffset: offset, payloadLength: 1, isList: false }
+  } else if (prefix <= 0xb7) {
+    span = {
+      offset,
+      payloadOffset: offset + 1,
+      payloadLength: prefix - 0x80,
+      isList: false,
+    }
+  } else if (prefix <= 0xbf) {
+    const size = prefix - 0xb7
+    span = {
+      offset,
+      payloadOffset: offset + 1 + size,
+      payloadLength: readLength(bytes, offset + 1, size),
+      isList: false,
+    }
+  } else if (prefix <= 0xf7) {
+    span = {
+      offset,
+      payloadOffset: offset + 1,
+      payloadLength: prefix - 0xc0,
+      isList: true,
+    }
+  } else {
+    const size = prefix - 0xf7
+    span = {
+      offset,
+      payloadOffset: offset + 1 + size,
+      payloadLength: readLength(bytes, offset + 1, size),
+      isList: true,
+    }
+  }
+
+  if (span.payloadOffset + span.payloadLength > bytes.length) {
+    throw new Error(`Invalid RLP: item at offset ${offset} is truncated`)
+  }
+  return span
+}
+
+/**
+ * Locate the items of the RLP list starting at the given offset
+ * @param bytes - The RLP encoding
+ * @param offset - The offset of the list prefix
+ * @returns The spans of the list items, in order
+ */
+export function rlpListSpans(bytes: Uint8Array, offset = 0): RlpSpan[] {
+  const list = rlpSpanAt(bytes, offset)
+  if (!list.isList) {
+    throw new Error(`Invalid RLP: item at offset ${offset} is not a list`)
+  }
+
+  const items: RlpSpan[] = []
+  const end = list.payloadOffset + list.payloadLength
+  let cursor = list.payloadOffset
+  while (cursor < end) {
+    const item = rlpSpanAt(bytes, cursor)
+    items.push(item)
+    cursor = item.payloadOffset + item.payloadLength
+  }
+
+  if (cursor !== end) {
+    throw new Error(`Invalid RLP: list at offset ${offset} overruns its length`)
+  }
+  return items
+}
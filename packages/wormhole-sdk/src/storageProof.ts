@@ -0,0 +1,309 @@
+import { RLP } from '@ethereumjs/rlp'
+import { bytesToBigInt } from '@ethereumjs/util'
+import {
+  Address,
+  bytesToHex,
+  Chain,
+  Client,
+  concat,
+  getAddress,
+  Hex,
+  hexToBigInt,
+  hexToBytes,
+  isAddressEqual,
+  keccak256,
+  numberToHex,
+  pad,
+  Transport,
+} from 'viem'
+import { buildBlockHeaderProof, RawRpcBlockHeader } from './blockHeaderProof'
+import {
+  formatTrieProofWitness,
+  TrieProofWitness,
+  TrieProofWitnessBounds,
+} from './receiptProofWitness'
+import { verifyTrieProof } from './receiptTrieVerifier'
+import { rlpListSpans } from './rlpSpans'
+
+/**
+ * Raw account proof format from the eth_getProof RPC call
+ */
+export type RawRpcAccountProof = {
+  address: Address
+  accountProof: Hex[]
+  balance: Hex
+  codeHash: Hex
+  nonce: Hex
+  storageHash: Hex
+  storageProof: Array<{
+    key: Hex
+    value: Hex
+    proof: Hex[]
+  }>
+}
+
+/**
+ * Default bounds of the state proof circuit: a branch node is at most 532
+ * bytes and both trie keys are 32 byte hashes
+ */
+export const DEFAULT_STATE_PROOF_WITNESS_BOUNDS: TrieProofWitnessBounds = {
+  maxDepth: 10,
+  maxNodeLength: 532,
+  maxKeyLength: 32,
+}
+
+// Seed Solady's ERC20 mixes into the balance slot of every owner
+const SOLADY_BALANCE_SLOT_SEED = '0x87a211a2'
+
+/**
+ * Compute the storage slot of an owner's balance in a Solady ERC20, which
+ * hashes the 20 owner bytes followed by the seed padded to 12 bytes
+ * @param owner - The token holder, e.g. a burn address
+ * @returns The storage slot of its balance
+ */
+export function soladyBalanceSlot(owner: Address): Hex {
+  return keccak256(concat([owner, pad(SOLADY_BALANCE_SLOT_SEED, { size: 12 })]))
+}
+
+/**
+ * Find the proof of one slot in an eth_getProof answer, whose keys some nodes
+ * return without their leading zeros
+ */
+function findSlotProof(proof: RawRpcAccountProof, slot: Hex) {
+  const storageProof = proof.storageProof.find(
+    ({ key }) => hexToBigInt(key) === hexToBigInt(slot),
+  )
+  if (!storageProof) {
+    throw new Error(`The account proof has no proof of slot ${slot}`)
+  }
+  return storageProof
+}
+
+/**
+ * Arguments for verifying the balance slot proof of an account
+ */
+type VerifyBurnBalanceProofArgs = {
+  stateRoot: Hex
+  slot: Hex
+  proof: RawRpcAccountProof
+}
+
+/**
+ * Return type for verifying the balance slot proof of an account
+ */
+type VerifyBurnBalanceProofReturn = {
+  balance: bigint
+  storageRoot: Hex
+  // the proven account and storage leaf values
+  accountValue: Hex
+  storageValue: Hex
+}
+
+/**
+ * Verify an eth_getProof answer: the account against the state root, then
+ * the slot against the storage root of the proven account.
+ * @param param0 - The trusted state root, the slot and the eth_getProof answer
+ * @returns The proven slot value and the storage root it was proven against
+ */
+export function verifyBurnBalanceProof({
+  stateRoot,
+  slot,
+  proof,
+}: VerifyBurnBalanceProofArgs): VerifyBurnBalanceProofReturn {
+  const storageProof = findSlotProof(proof, slot)
+
+  const accountValue = verifyTrieProof(
+    {
+      rootHash: stateRoot,
+      key: keccak256(proof.address),
+      proofNodes: proof.accountProof,
+    },
+    'account',
+  )
+  // Accounts are [nonce, balance, storageRoot, codeHash]
+  const [, , storageRootBytes] = RLP.decode(
+    hexToBytes(accountValue),
+  ) as Uint8Array[]
+  const storageRoot = bytesToHex(storageRootBytes)
+  if (storageRoot !== proof.storageHash.toLowerCase()) {
+    throw new Error(
+      `The proven storage root ${storageRoot} of ${proof.address} does not match ${proof.storageHash}`,
+    )
+  }
+
+  const storageValue = verifyTrieProof(
+    {
+      rootHash: storageRoot,
+      key: keccak256(slot),
+      proofNodes: storageProof.proof,
+    },
+    'storage',
+  )
+  const balance = bytesToBigInt(
+    RLP.decode(hexToBytes(storageValue)) as Uint8Array,
+  )
+  if (balance !== hexToBigInt(storageProof.value)) {
+    throw new Error(
+      `The proven value ${balance} of slot ${slot} does not match ${storageProof.value}`,
+    )
+  }
+
+  return { balance, storageRoot, accountValue, storageValue }
+}
+
+/**
+ * Everything a state proof circuit needs to prove the token balance of a burn
+ * address, the alternative to proving the receipt of the burn
+ */
+export type BurnBalanceWitness = {
+  blockHash: Hex
+  headerRlp: Hex
+  // byte offset of the 32 stateRoot bytes inside headerRlp
+  stateRootOffset: number
+  token: Address
+  owner: Address
+  slot: Hex
+  balance: bigint
+  // keyed by keccak256(token), proven against the stateRoot
+  account: TrieProofWitness
+  // offset of the 32 storageRoot bytes inside the account leaf value, add
+  // account.leafValueOffset
+  storageRootOffset: number
+  // keyed by keccak256(slot), proven against the storageRoot
+  storage: TrieProofWitness
+}
+
+/**
+ * Arguments for building the balance witness of a burn address
+ */
+type BuildBurnBalanceWitnessArgs = {
+  // the block the proof was fetched at, as returned by eth_getBlockByNumber
+  block: RawRpcBlockHeader
+  owner: Address
+  proof: RawRpcAccountProof
+  bounds?: Partial<TrieProofWitnessBounds>
+}
+
+/**
+ * Build the witness of the token balance of a burn address, checking on the
+ * way that the proof matches the block and that the balance is not zero.
+ * @param param0 - The block, the burn address and the eth_getProof answer
+ * for its balance slot
+ * @returns The header, account and storage witnesses
+ */
+export function buildBurnBalanceWitness({
+  block,
+  owner,
+  proof,
+  bounds,
+}: BuildBurnBalanceWitnessArgs): BurnBalanceWitness {
+  const header = buildBlockHeaderProof(block)
+  const slot = soladyBalanceSlot(owner)
+  // Zero slots are not in the trie: the proof would only show their absence
+  if (hexToBigInt(findSlotProof(proof, slot).value) === 0n) {
+    throw new Error(
+      `${owner} holds no ${proof.address} at block ${BigInt(block.number)}`,
+    )
+  }
+  const { balance, storageRoot, accountValue } = verifyBurnBalanceProof({
+    stateRoot: header.stateRoot,
+    slot,
+    proof,
+  })
+
+  const witnessBounds = { ...DEFAULT_STATE_PROOF_WITNESS_BOUNDS, ...bounds }
+  return {
+    blockHash: header.blockHash,
+    headerRlp: header.headerRlp,
+    stateRootOffset: header.stateRootOffset,
+    token: getAddress(proof.address),
+    owner: getAddress(owner),
+    slot,
+    balance,
+    account: formatTrieProofWitness({
+      rootHash: header.stateRoot,
+      key: keccak256(proof.address),
+      proofNodes: proof.accountProof,
+      bounds: witnessBounds,
+      trieName: 'account',
+    }),
+    storageRootOffset: rlpListSpans(hexToBytes(accountValue))[2].payloadOffset,
+    storage: formatTrieProofWitness({
+      rootHash: storageRoot,
+      key: keccak256(slot),
+      proofNodes: findSlotProof(proof, slot).proof,
+      bounds: witnessBounds,
+      trieName: 'storage',
+    }),
+  }
+}
+
+/**
+ * Arguments for fetching the balance proof of a burn address
+ */
+type FetchBurnBalanceProofArgs = {
+  client: Client<Transport, Chain | undefined>
+  token: Address
+  owner: Address
+  blockNumber: bigint
+  bounds?: Partial<TrieProofWitnessBounds>
+}
+
+/**
+ * Return type for fetching the balance proof of a burn address, the inputs
+ * of `buildBurnBalanceWitness`
+ */
+export type BurnBalanceProofData = {
+  block: RawRpcBlockHeader
+  proof: RawRpcAccountProof
+}
+
+/**
+ * Fetch the header of a block and the eth_getProof of an owner's Solady
+ * balance slot at that block
+ * @param param0 - A client of the chain, the token, the owner and the block
+ * @returns The raw block header and account proof
+ */
+export async function fetchBurnBalanceProof({
+  client,
+  token,
+  owner,
+  blockNumber,
+}: Omit<FetchBurnBalanceProofArgs, 'bounds'>): Promise<BurnBalanceProofData> {
+  const block = await client.request<{
+    Parameters: [Hex, boolean]
+    ReturnType: RawRpcBlockHeader | null
+  }>({
+    method: 'eth_getBlockByNumber',
+    params: [numberToHex(blockNumber), false],
+  })
+  if (!block) {
+    throw new Error(`Block ${blockNumber} not found`)
+  }
+
+  const proof = await client.request<{
+    Parameters: [Address, Hex[], Hex]
+    ReturnType: RawRpcAccountProof
+  }>({
+    method: 'eth_getProof',
+    params: [token, [soladyBalanceSlot(owner)], numberToHex(blockNumber)],
+  })
+  if (!isAddressEqual(proof.address, token)) {
+    throw new Error(`eth_getProof answered for ${proof.address}, not ${token}`)
+  }
+  return { block, proof }
+}
+
+/**
+ * Fetch and build the balance witness of a burn address
+ * @param param0 - A client of the chain, the token, the burn address and the
+ * block to prove its balance at
+ * @returns The header, account and storage witnesses
+ */
+export async function fetchBurnBalanceWitness({
+  bounds,
+  ...args
+}: FetchBurnBalanceProofArgs): Promise<BurnBalanceWitness> {
+  const { block, proof } = await fetchBurnBalanceProof(args)
+  return buildBurnBalanceWitness({ block, owner: args.owner, proof, bounds })
+}
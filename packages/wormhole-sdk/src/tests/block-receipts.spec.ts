@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest'
+import { bytesToHex, createClient, custom, Hex } from 'viem'
+import { BlockReceiptsMethod, getBlockReceiptsRaw } from '../blockReceipts'
+import { encodeRPCReceipt } from '../receiptTrieProof'
+import { loadReceiptTrieFixtures } from './fixtures'
+
+const fixtures = Object.fromEntries(loadReceiptTrieFixtures())
+
+// 8 transactions, deposits included
+const { block, transactions, receipts } =
+  fixtures['synthetic-op-canyon-deposits']
+const blockNumber = BigInt(block.number)
+
+/**
+ * Client of a node serving the fixture block, which rejects the given methods
+ * and answers the receipts of a transaction after `delay` milliseconds
+ */
+function createFixtureClient({
+  rejects = [],
+  delay = 0,
+}: {
+  rejects?: BlockReceiptsMethod[]
+  delay?: number
+}) {
+  const calls: string[] = []
+  let inFlight = 0
+  let maxInFlight = 0
+
+  const request = async ({
+    method,
+    params,
+  }: {
+    method: string
+    params: [Hex, ...unknown[]]
+  }) => {
+    calls.push(method)
+    if (rejects.includes(method as BlockReceiptsMethod)) {
+      throw new Error(`the method ${method} does not exist`)
+    }
+    switch (method) {
+      case 'eth_chainId':
+        return '0x385'
+      case 'eth_getBlockByNumber':
+        return block
+      case 'eth_getBlockReceipts':
+        // nodes add the block and gas fields to every receipt
+        return receipts.map((receipt) => ({
+          ...receipt,
+          blockHash: block.hash,
+          gasUsed: '0x5208',
+        }))
+      case 'debug_getRawReceipts':
+        return receipts.map((receipt) => bytesToHex(encodeRPCReceipt(receipt)))
+      case 'eth_getTransactionReceipt': {
+        const index = transactions.findIndex(({ hash }) => hash === params[0])
+        inFlight++
+        maxInFlight = Math.max(maxInFlight, inFlight)
+        await new Promise((resolve) => setTimeout(resolve, delay))
+        inFlight--
+        return { ...receipts[index], transactionHash: params[0] }
+      }
+      default:
+        throw new Error(`Unexpected method ${method}`)
+    }
+  }
+
+  return {
+    client: createClient({ transport: custom({ request }, { retryCount: 0 }) }),
+    calls,
+    maxInFlight: () => maxInFlight,
+  }
+}
+
+describe('block receipts', () => {
+  it('should fetch the receipts with eth_getBlockReceipts', async () => {
+    const { client, calls } = createFixtureClient({})
+    const fallbacks: BlockReceiptsMethod[] = []
+
+    expect(
+      await getBlockReceiptsRaw(client, blockNumber, {
+        onFallback: (failed) => fallbacks.push(failed),
+      }),
+    ).toEqual(receipts)
+    expect(calls).toEqual(['eth_getBlockReceipts'])
+    expect(fallbacks).toEqual([])
+  })
+
+  it('should fall back to debug_getRawReceipts', async () => {
+    const { client, calls } = createFixtureClient({
+      rejects: ['eth_getBlockReceipts'],
+    })
+    const fallbacks: Array<[BlockReceiptsMethod, BlockReceiptsMethod]> = []
+
+    expect(
+      await getBlockReceiptsRaw(client, blockNumber, {
+        onFallback: (failed, next) => fallbacks.push([failed, next]),
+      }),
+    ).toEqual(receipts)
+    expect(calls).toEqual(['eth_getBlockReceipts', 'debug_getRawReceipts'])
+    expect(fallbacks).toEqual([
+      ['eth_getBlockReceipts', 'debug_getRawReceipts'],
+    ])
+  })
+
+  it('should fall back to one eth_getTransactionReceipt per transaction', async () => {
+    const { client, calls } = createFixtureClient({
+      rejects: ['eth_getBlockReceipts', 'debug_getRawReceipts'],
+    })
+    const fallbacks: Array<[BlockReceiptsMethod, BlockReceiptsMethod]> = []
+
+    expect(
+      await getBlockReceiptsRaw(client, blockNumber, {
+        onFallback: (failed, next) => fallbacks.push([failed, next]),
+      }),
+    ).toEqual(receipts)
+    expect(
+      calls.filter((method) => method === 'eth_getTransactionReceipt'),
+    ).toHaveLength(transactions.length)
+    expect(fallbacks).toEqual([
+      ['eth_getBlockReceipts', 'debug_getRawReceipts'],
+      ['debug_getRawReceipts', 'eth_getTransactionReceipt'],
+    ])
+  })
+
+  it('should keep at most `concurrency` receipt requests in flight', async () => {
+    const rejects: BlockReceiptsMethod[] = [
+      'eth_getBlockReceipts',
+      'debug_getRawReceipts',
+    ]
+
+    for (const concurrency of [1, 3, 20]) {
+      const { client, maxInFlight } = createFixtureClient({
+        rejects,
+        delay: 5,
+      })
+
+      expect(
+        await getBlockReceiptsRaw(client, blockNumber, { concurrency }),
+      ).toEqual(receipts)
+      expect(maxInFlight()).toBe(Math.min(concurrency, transactions.length))
+    }
+  })
+
+  it('should fail when every method fails', async () => {
+    const { client } = createFixtureClient({
+      rejects: [
+        'eth_getBlockReceipts',
+        'debug_getRawReceipts',
+        'eth_getTransactionReceipt',
+      ],
+    })
+
+    await expect(getBlockReceiptsRaw(client, blockNumber)).rejects.toThrow(
+      /eth_getTransactionReceipt does not exist/,
+    )
+  })
+})
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import { Hex, pad, sha256 } from 'viem'
+import { privateKeyToAddress } from 'viem/accounts'
+import {
+  DEFAULT_BURN_ADDRESS_POW_BITS,
+  deriveBurnAddress,
+  findBurnSecret,
+  generateBurnSecret,
+  isValidBurnAddress,
+  isValidBurnSecret,
+} from '../burnAddress'
+
+const SEED = pad('0x01', { size: 32 })
+
+describe('burn address', () => {
+  it('should find the same secret for the same seed', () => {
+    const secret = findBurnSecret(SEED)
+
+    expect(findBurnSecret(SEED)).toBe(secret)
+    expect(isValidBurnSecret(secret)).toBe(true)
+    expect(
+      BigInt(sha256(`0x02${secret.slice(2)}`)) >>
+        BigInt(256 - DEFAULT_BURN_ADDRESS_POW_BITS),
+    ).toBe(0n)
+  })
+
+  it('should derive a burn address that is not the address of the secret as a key', () => {
+    const secret = generateBurnSecret()
+    const address = deriveBurnAddress(secret)
+
+    expect(address).toBe(deriveBurnAddress(secret))
+    expect(address).not.toBe(privateKeyToAddress(secret))
+    expect(isValidBurnAddress({ address, secret })).toBe(true)
+    expect(
+      isValidBurnAddress({ address: address.toLowerCase() as Hex, secret }),
+    ).toBe(true)
+  })
+
+  it('should reject secrets without enough work', () => {
+    // sha256(0x02 || 0x00..00) does not start with 16 zero bits
+    const secret = pad('0x00', { size: 32 })
+
+    expect(isValidBurnSecret(secret)).toBe(false)
+    expect(isValidBurnSecret(secret, { powBits: 0 })).toBe(true)
+    expect(() => deriveBurnAddress(secret)).toThrow(/proof-of-work/)
+    expect(
+      isValidBurnAddress({
+        address: deriveBurnAddress(secret, { powBits: 0 }),
+        secret,
+      }),
+    ).toBe(false)
+  })
+
+  it('should reject an address derived from another secret', () => {
+    const secret = findBurnSecret(SEED, { powBits: 8 })
+    const other = findBurnSecret(pad('0x02', { size: 32 }), { powBits: 8 })
+
+    expect(
+      isValidBurnAddress({
+        address: deriveBurnAddress(other, { powBits: 8 }),
+        secret,
+        powBits: 8,
+      }),
+    ).toBe(false)
+    expect(isValidBurnAddress({ address: '0x1234', secret, powBits: 8 })).toBe(
+      false,
+    )
+    expect(() => findBurnSecret('0x1234')).toThrow(/32 bytes/)
+  })
+})
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest'
+import {
+  createClient,
+  custom,
+  encodeAbiParameters,
+  encodeEventTopics,
+  Hex,
+  numberToHex,
+  pad,
+} from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { L2NativeSuperchainERC20Abi } from '../abi/L2NativeSuperchainERC20Abi'
+import { deriveBurnAddress, isValidBurnSecret } from '../burnAddress'
+import {
+  deriveWormholeSecret,
+  deriveWormholeSecrets,
+  recoverWormholeNotes,
+  WORMHOLE_SECRETS_TYPED_DATA,
+} from '../deterministicSecrets'
+
+// anvil's first dev account
+const account = privateKeyToAccount(
+  '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+)
+const token = '0x5FbDB2315678afecb367f032d93F642f64180aa3'
+const powBits = 8
+
+describe('deterministic secrets', () => {
+  it('should derive the same secrets from the same signature', async () => {
+    const signature = await account.signTypedData(WORMHOLE_SECRETS_TYPED_DATA)
+    // RFC 6979 signatures do not change when signed again
+    expect(await account.signTypedData(WORMHOLE_SECRETS_TYPED_DATA)).toBe(
+      signature,
+    )
+
+    const secret = await deriveWormholeSecret({ signature, index: 0 })
+    expect(await deriveWormholeSecret({ signature, index: 0 })).toBe(secret)
+    expect(isValidBurnSecret(secret)).toBe(true)
+
+    expect(await deriveWormholeSecret({ signature, index: 1 })).not.toBe(secret)
+    await expect(
+      deriveWormholeSecret({ signature, index: -1 }),
+    ).rejects.toThrow(/uint32/)
+  })
+
+  it('should recover the notes of burns to derived addresses', async () => {
+    const signature = await account.signTypedData(WORMHOLE_SECRETS_TYPED_DATA)
+    const secrets = await deriveWormholeSecrets({
+      signature,
+      count: 3,
+      powBits,
+    })
+    const secret = secrets[2]
+    expect(await deriveWormholeSecret({ signature, index: 2, powBits })).toBe(
+      secret,
+    )
+    const burnAddress = deriveBurnAddress(secret, { powBits })
+    const transactionHash = pad('0xaa', { size: 32 })
+
+    const log = (logIndex: number, to: Hex, amount: bigint) => ({
+      address: token,
+      topics: encodeEventTopics({
+        abi: L2NativeSuperchainERC20Abi,
+        eventName: 'Transfer',
+        args: { from: account.address, to },
+      }),
+      data: encodeAbiParameters([{ type: 'uint256' }], [amount]),
+      blockNumber: '0x10',
+      blockHash: pad('0xbb', { size: 32 }),
+      transactionHash,
+      transactionIndex: '0x3',
+      logIndex: numberToHex(logIndex),
+      removed: false,
+    })
+    // The burn is the second log of its transaction, block-wide log 7
+    const receiptLogs = [log(6, account.address, 1n), log(7, burnAddress, 5n)]
+    let returnedLogs = receiptLogs
+
+    const client = createClient({
+      transport: custom({
+        request: async ({ method }) => {
+          if (method === 'eth_chainId') return numberToHex(901)
+          if (method === 'eth_getLogs') return [receiptLogs[1]]
+          if (method === 'eth_getTransactionReceipt') {
+            return { transactionHash, logs: returnedLogs, status: '0x1' }
+          }
+          throw new Error(`unexpected ${method}`)
+        },
+      }),
+    })
+
+    const recovered = await recoverWormholeNotes({
+      client,
+      token,
+      secrets,
+      powBits,
+    })
+
+    expect(recovered).toEqual([
+      {
+        index: 2,
+        note: {
+          secret,
+          amount: 5n,
+          token,
+          sourceChainId: 901,
+          blockNumber: 16n,
+          transactionIndex: 3,
+          logIndex: 1,
+        },
+      },
+    ])
+
+    // A receipt that misses the log, e.g. from a node that reorged
+    returnedLogs = receiptLogs.slice(0, 1)
+    await expect(
+      recoverWormholeNotes({ client, token, secrets, powBits }),
+    ).rejects.toThrow(
+      `Transfer log 7 is not in the receipt of ${transactionHash}`,
+    )
+  })
+})
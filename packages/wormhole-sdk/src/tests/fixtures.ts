@@ -0,0 +1,95 @@
+import { readdirSync, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { createBlockHeaderFromRPC } from '@ethereumjs/block'
+import { Common, Hardfork, Mainnet } from '@ethereumjs/common'
+import { bytesToHex, getAddress, Hex, pad, zeroHash } from 'viem'
+import { RawRpcBlockHeader } from '../blockHeaderProof'
+import { findBurnSecret } from '../burnAddress'
+import { WormholeNote } from '../note'
+import { RawRpcReceipt } from '../receiptTrieProof'
+import { RawRpcTransaction } from '../transactionTrieProof'
+
+/**
+ * A full block: the header from eth_getBlockByNumber, the transactions from
+ * getBlockTransactionsRaw and the receipts from getBlockReceiptsRaw.
+ * `pnpm record:fixture` captures one from an RPC, with its chainId. The
+ * bundled `synthetic-*` blocks were assembled offline, they belong to no
+ * chain and their block hash is computed on load.
+ */
+export type ReceiptTrieFixture = {
+  description: string
+  chainId?: number
+  block: RawRpcBlockHeader & { transactions: Hex[] }
+  transactions: RawRpcTransaction[]
+  receipts: RawRpcReceipt[]
+}
+
+type ReceiptTrieFixtureFile = Omit<ReceiptTrieFixture, 'block'> & {
+  block: Omit<ReceiptTrieFixture['block'], 'hash'> & { hash?: Hex }
+}
+
+export const FIXTURES_DIR = fileURLToPath(new URL('fixtures', import.meta.url))
+
+/**
+ * Hash a synthetic header with the ethereumjs reference implementation, so
+ * that the SDK's header encoding is still checked against another one
+ */
+function referenceBlockHash(block: ReceiptTrieFixtureFile['block']): Hex {
+  const common = new Common({
+    chain: Mainnet,
+    hardfork: block.requestsHash ? Hardfork.Prague : Hardfork.London,
+  })
+  // Only the header fields are hashed, the others just fill the RPC shape
+  const header = createBlockHeaderFromRPC(
+    { ...block, hash: zeroHash, size: '0x0', uncles: [] },
+    { common, skipConsensusFormatValidation: true },
+  )
+  return bytesToHex(header.hash())
+}
+
+/**
+ * Load every committed fixture, keyed by file name without extension
+ */
+export function loadReceiptTrieFixtures(): Array<[string, ReceiptTrieFixture]> {
+  return readdirSync(FIXTURES_DIR)
+    .filter((file) => file.endsWith('.json'))
+    .sort()
+    .map((file) => {
+      const fixture: ReceiptTrieFixtureFile = JSON.parse(
+        readFileSync(join(FIXTURES_DIR, file), 'utf8'),
+      )
+      const { block } = fixture
+      return [
+        file.replace(/\.json$/, ''),
+        {
+          ...fixture,
+          block: { ...block, hash: block.hash ?? referenceBlockHash(block) },
+        },
+      ]
+    })
+}
+
+/**
+ * The block of a burn: its transaction 2 transfers 2.5 tokens to the burn
+ * address of the secret findBurnSecret(pad(0x0b))
+ */
+export const wormholeBurnFixture = Object.fromEntries(
+  loadReceiptTrieFixtures(),
+)['synthetic-op-wormhole-burn']
+
+/**
+ * The note of the burn in `wormholeBurnFixture`
+ */
+export const wormholeBurnNote: WormholeNote = {
+  secret: findBurnSecret(pad('0x0b', { size: 32 })),
+  amount: 25n * 10n ** 17n,
+  token: getAddress(wormholeBurnFixture.receipts[2].logs[0].address),
+  sourceChainId: 901,
+  blockNumber: BigInt(wormholeBurnFixture.block.number),
+  transactionIndex: 2,
+  logIndex: 0,
+}
+
+export const wormholeBurnRecipient =
+  '0x70997970C51812dc3A010C7d01b50e0d17dc79C8'
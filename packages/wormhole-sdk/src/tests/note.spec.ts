@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import { pad } from 'viem'
+import {
+  decodeNote,
+  encodeNote,
+  noteFromJson,
+  noteToJson,
+  parseNote,
+  validateNote,
+  WormholeNote,
+} from '../note'
+
+const note: WormholeNote = {
+  secret: pad('0xabcd', { size: 32 }),
+  amount: 10n ** 18n,
+  token: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+  sourceChainId: 901,
+  blockNumber: 1234n,
+  transactionIndex: 2,
+  logIndex: 1,
+}
+
+describe('note', () => {
+  it('should round-trip the compact string and the JSON form', () => {
+    const encoded = encodeNote(note)
+
+    expect(encoded).toMatch(/^zkw-note-v1-[0-9a-f]{224}$/)
+    expect(decodeNote(encoded)).toEqual(note)
+    expect(noteFromJson(JSON.parse(JSON.stringify(noteToJson(note))))).toEqual(
+      note,
+    )
+    expect(parseNote(`  ${encoded}\n`)).toEqual(note)
+    expect(parseNote(JSON.stringify(noteToJson(note), null, 2))).toEqual(note)
+  })
+
+  it('should reject a mistyped or truncated note', () => {
+    const encoded = encodeNote(note)
+    const last = encoded.at(-1) === '0' ? '1' : '0'
+
+    expect(() => decodeNote(encoded.slice(0, -1) + last)).toThrow(
+      /checksum mismatch/,
+    )
+    expect(() => decodeNote(encoded.slice(0, -2))).toThrow(
+      /expected 112 bytes, got 111$/,
+    )
+    expect(() => decodeNote(encoded.slice(0, -1))).toThrow(
+      /odd number of hex digits \(223\)/,
+    )
+    expect(() => decodeNote(encoded.replace('-v1-', '-v2-'))).toThrow(
+      /unsupported version v2/,
+    )
+    expect(() => decodeNote(encoded.slice(4))).toThrow(/zkw-note-v1-/)
+  })
+
+  it('should reject JSON fields that disagree with the compact string', () => {
+    const json = noteToJson(note)
+
+    expect(() => noteFromJson({ ...json, amount: '1' })).toThrow(
+      /amount do not match/,
+    )
+    expect(() => noteFromJson({ ...json, version: 2 })).toThrow(
+      /unsupported version/,
+    )
+    expect(() => parseNote('{"format":')).toThrow(/malformed JSON/)
+  })
+
+  it('should reject out of range fields', () => {
+    expect(() => validateNote({ ...note, amount: 0n })).toThrow(/amount/)
+    expect(() => validateNote({ ...note, secret: '0x01' })).toThrow(/secret/)
+    expect(() => validateNote({ ...note, logIndex: -1 })).toThrow(/logIndex/)
+    expect(() => encodeNote({ ...note, blockNumber: 2n ** 64n })).toThrow(
+      /blockNumber/,
+    )
+  })
+})
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest'
+import {
+  createClient,
+  custom,
+  decodeFunctionData,
+  encodeFunctionResult,
+  hexToBigInt,
+  pad,
+} from 'viem'
+import { ZkWormholesNullifiersAbi } from '../abi/ZkWormholesNullifiersAbi'
+import { deriveNullifier, SNARK_SCALAR_FIELD } from '../nullifier'
+import {
+  assertNullifierUnspent,
+  combineNullifierRegistries,
+  createLocalNullifierRegistry,
+  createOnchainNullifierRegistry,
+} from '../nullifierRegistry'
+
+const burn = {
+  secret: pad('0x01', { size: 32 }),
+  chainId: 901,
+  blockNumber: 1234n,
+  transactionIndex: 2,
+  logIndex: 0,
+}
+
+describe('nullifier', () => {
+  it('should derive one nullifier per secret and burn log', () => {
+    const nullifier = deriveNullifier(burn)
+
+    expect(deriveNullifier(burn)).toBe(nullifier)
+    expect(hexToBigInt(nullifier)).toBeLessThan(SNARK_SCALAR_FIELD)
+
+    const variations = [
+      { secret: pad('0x02', { size: 32 }) },
+      { chainId: 902 },
+      { blockNumber: 1235n },
+      { transactionIndex: 3 },
+      { logIndex: 1 },
+    ]
+    for (const variation of variations) {
+      expect(deriveNullifier({ ...burn, ...variation })).not.toBe(nullifier)
+    }
+  })
+
+  it('should remember spent nullifiers in a local store', async () => {
+    const items = new Map<string, string>()
+    const storage = {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => void items.set(key, value),
+    }
+    const nullifier = deriveNullifier(burn)
+
+    const registry = createLocalNullifierRegistry({ storage })
+    expect(await registry.isSpent(nullifier)).toBe(false)
+    await assertNullifierUnspent(registry, nullifier)
+
+    await registry.markSpent(nullifier)
+
+    // A new registry over the same storage sees it too
+    const reloaded = createLocalNullifierRegistry({ storage })
+    expect(await reloaded.isSpent(nullifier)).toBe(true)
+    expect(
+      await reloaded.isSpent(`0x${nullifier.slice(2).toUpperCase()}`),
+    ).toBe(true)
+    await expect(assertNullifierUnspent(reloaded, nullifier)).rejects.toThrow(
+      /already spent/,
+    )
+  })
+
+  it('should read spent nullifiers from the minting contract', async () => {
+    const spent = deriveNullifier(burn)
+    const client = createClient({
+      transport: custom({
+        request: async ({ method, params }) => {
+          if (method !== 'eth_call') throw new Error(`unexpected ${method}`)
+          const { args } = decodeFunctionData({
+            abi: ZkWormholesNullifiersAbi,
+            data: params[0].data,
+          })
+          return encodeFunctionResult({
+            abi: ZkWormholesNullifiersAbi,
+            functionName: 'nullifiers',
+            result: args[0] === hexToBigInt(spent),
+          })
+        },
+      }),
+    })
+
+    const onchain = createOnchainNullifierRegistry({
+      client,
+      address: '0x0000000000000000000000000000000000000001',
+    })
+    const local = createLocalNullifierRegistry()
+    const registry = combineNullifierRegistries(onchain, local)
+    const pending = deriveNullifier({ ...burn, logIndex: 1 })
+
+    expect(await registry.isSpent(spent)).toBe(true)
+    expect(await registry.isSpent(pending)).toBe(false)
+
+    await local.markSpent(pending)
+    expect(await registry.isSpent(pending)).toBe(true)
+  })
+})
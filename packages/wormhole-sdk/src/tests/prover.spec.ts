@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest'
+import { hexToBigInt } from 'viem'
+import { formatWormholeCircuitInput, MAX_HEADER_LENGTH } from '../groth16Prover'
+import { createMockProver, createProver } from '../prover'
+import { buildWormholeWitness, toPublicSignalsArray } from '../wormholeWitness'
+import {
+  wormholeBurnFixture,
+  wormholeBurnNote,
+  wormholeBurnRecipient,
+} from './fixtures'
+
+const { block, receipts } = wormholeBurnFixture
+const witness = await buildWormholeWitness({
+  note: wormholeBurnNote,
+  block,
+  receipts,
+  recipient: wormholeBurnRecipient,
+  relayerFee: 10n ** 16n,
+  relayer: '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC',
+})
+
+describe('prover', () => {
+  it('should prove a burn deterministically with the mock backend', async () => {
+    const prover = createProver({ backend: 'mock' })
+    const result = await prover.generateProof(witness)
+
+    expect(result.publicSignals).toEqual(
+      toPublicSignalsArray(witness.publicSignals),
+    )
+    expect(await createMockProver().generateProof(witness)).toEqual(result)
+    expect(await prover.verify(result)).toBe(true)
+
+    // A proof only verifies for the signals it was generated for, so another
+    // relayer cannot take the fee
+    const [
+      receiptFact,
+      token,
+      amount,
+      changeCommitment,
+      nullifier,
+      recipient,
+      relayerFee,
+    ] = result.publicSignals
+    expect(
+      await prover.verify({
+        ...result,
+        publicSignals: [
+          receiptFact,
+          token,
+          amount,
+          changeCommitment,
+          nullifier,
+          recipient,
+          relayerFee,
+          hexToBigInt('0x90F79bf6EB2c4f870365E785982E1f101E93b906'),
+        ],
+      }),
+    ).toBe(false)
+  })
+
+  it('should refuse a witness the circuit would not satisfy', async () => {
+    const prover = createMockProver()
+
+    await expect(
+      prover.generateProof({
+        ...witness,
+        publicSignals: { ...witness.publicSignals, withdrawAmount: 1n },
+      }),
+    ).rejects.toThrow(/public signals do not match/)
+    await expect(
+      prover.generateProof({
+        ...witness,
+        publicSignals: {
+          ...witness.publicSignals,
+          relayerFee: witness.note.amount + 1n,
+        },
+      }),
+    ).rejects.toThrow(/relayer fee exceeds the amount/)
+    await expect(
+      prover.generateProof({
+        ...witness,
+        publicSignals: { ...witness.publicSignals, relayer: 0n },
+      }),
+    ).rejects.toThrow(/relayer fee has no relayer/)
+    await expect(
+      prover.generateProof({
+        ...witness,
+        note: { ...witness.note, logIndex: 1 },
+      }),
+    ).rejects.toThrow(/nullifier does not match/)
+    await expect(
+      prover.generateProof({
+        ...witness,
+        receiptsRootOffset: witness.receiptsRootOffset + 1,
+      }),
+    ).rejects.toThrow(/receipts root/)
+  })
+
+  it('should map the witness to fixed-size circuit inputs', () => {
+    const input = formatWormholeCircuitInput(witness)
+
+    expect(input.header).toHaveLength(MAX_HEADER_LENGTH)
+    expect(input.topicOffsets).toHaveLength(4)
+    expect(input.topicsLength).toBe(3)
+    expect(input.nullifier).toBe(witness.publicSignals.nullifier)
+    expect(input.relayerFee).toBe(10n ** 16n)
+    expect(input.relayer).toBe(witness.publicSignals.relayer)
+  })
+})
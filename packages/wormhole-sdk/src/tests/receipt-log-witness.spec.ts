@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest'
+import { bytesToHex, encodeEventTopics, Hex, hexToBytes } from 'viem'
+import { L2NativeSuperchainERC20Abi } from '../abi/L2NativeSuperchainERC20Abi'
+import { decodeReceipt, findTransferLogs } from '../receiptDecoder'
+import {
+  buildReceiptLogProof,
+  getReceiptLogWitness,
+  verifyReceiptLogWitness,
+} from '../receiptLogWitness'
+import { formatReceiptProofWitness } from '../receiptProofWitness'
+import { loadReceiptTrieFixtures } from './fixtures'
+
+const fixtures = Object.fromEntries(loadReceiptTrieFixtures())
+
+// A swap whose receipt holds two Transfer logs and a Swap log
+const { receipts } = fixtures['synthetic-l1-all-tx-types']
+const SWAP_TX_INDEX = '0x3'
+
+const read = (value: Hex, offset: number, length: number) =>
+  bytesToHex(hexToBytes(value).subarray(offset, offset + length))
+
+describe('receipt log witness', () => {
+  it('should locate a log by its index', async () => {
+    const { value, log } = await buildReceiptLogProof({
+      receipts,
+      targetTxIndex: SWAP_TX_INDEX,
+      log: { logIndex: 2 },
+    })
+
+    expect(log.logIndex).toBe(2)
+    expect(read(value, log.addressOffset, 20)).toBe(
+      log.log.address.toLowerCase(),
+    )
+    expect(log.topicOffsets).toHaveLength(2)
+    log.topicOffsets.forEach((offset, i) =>
+      expect(read(value, offset, 32)).toBe(log.log.topics[i]),
+    )
+    expect(read(value, log.dataOffset, log.dataLength)).toBe(log.log.data)
+    expect(() => verifyReceiptLogWitness({ value, log })).not.toThrow()
+  })
+
+  it('should locate the Transfer log to a recipient by its topics', async () => {
+    const { value } = await buildReceiptLogProof({
+      receipts,
+      targetTxIndex: SWAP_TX_INDEX,
+      log: { logIndex: 0 },
+    })
+    const [, transfer] = findTransferLogs(decodeReceipt(value))
+
+    const { log } = await buildReceiptLogProof({
+      receipts,
+      targetTxIndex: SWAP_TX_INDEX,
+      log: {
+        topics: encodeEventTopics({
+          abi: L2NativeSuperchainERC20Abi,
+          eventName: 'Transfer',
+          args: { to: transfer.args.to },
+        }),
+      },
+    })
+
+    expect(log.logIndex).toBe(transfer.log.index)
+    expect(log.log).toEqual(transfer.log)
+    expect(BigInt(read(value, log.dataOffset, log.dataLength))).toBe(
+      transfer.args.amount,
+    )
+  })
+
+  it('should place the log inside the leaf node of the circuit witness', async () => {
+    const proof = await buildReceiptLogProof({
+      receipts,
+      targetTxIndex: SWAP_TX_INDEX,
+      log: { logIndex: 1 },
+    })
+    const witness = formatReceiptProofWitness(proof)
+    const leaf = Uint8Array.from(witness.nodes[witness.depth - 1])
+    const addressOffset = witness.leafValueOffset + proof.log.addressOffset
+
+    expect(bytesToHex(leaf.subarray(addressOffset, addressOffset + 20))).toBe(
+      proof.log.log.address.toLowerCase(),
+    )
+  })
+
+  it('should reject topics matching several logs', async () => {
+    const { value } = await buildReceiptLogProof({
+      receipts,
+      targetTxIndex: SWAP_TX_INDEX,
+      log: { logIndex: 0 },
+    })
+    const transferTopics = encodeEventTopics({
+      abi: L2NativeSuperchainERC20Abi,
+      eventName: 'Transfer',
+    })
+
+    expect(() =>
+      getReceiptLogWitness(value, { topics: transferTopics }),
+    ).toThrow(/select one by logIndex/)
+    expect(() =>
+      getReceiptLogWitness(value, {
+        topics: [...transferTopics, null, `0x${'00'.repeat(32)}`],
+      }),
+    ).toThrow(/No log/)
+    expect(() => getReceiptLogWitness(value, { logIndex: 3 })).toThrow(
+      /out of range/,
+    )
+  })
+
+  it('should reject a witness pointing at another log', async () => {
+    const { value, log } = await buildReceiptLogProof({
+      receipts,
+      targetTxIndex: SWAP_TX_INDEX,
+      log: { logIndex: 0 },
+    })
+    const other = getReceiptLogWitness(value, { logIndex: 1 })
+
+    expect(() =>
+      verifyReceiptLogWitness({ value, log: { ...log, log: other.log } }),
+    ).toThrow(/Invalid log witness/)
+    expect(() =>
+      verifyReceiptLogWitness({
+        value,
+        log: { ...log, addressOffset: log.addressOffset + 1 },
+      }),
+    ).toThrow(/offsets do not match/)
+  })
+})
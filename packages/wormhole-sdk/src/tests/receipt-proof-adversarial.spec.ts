@@ -0,0 +1,271 @@
+import { describe, expect, it } from 'vitest'
+import { RLP } from '@ethereumjs/rlp'
+import { bytesToHex, Hex, hexToBytes, keccak256, numberToHex } from 'viem'
+import { encodeBlockHeader, RawRpcBlockHeader } from '../blockHeaderProof'
+import { findTransferLogs } from '../receiptDecoder'
+import { formatReceiptProofWitness } from '../receiptProofWitness'
+import { buildReceiptTrie, RawRpcReceipt } from '../receiptTrieProof'
+import { decodeHexPrefix, verifyReceiptProof } from '../receiptTrieVerifier'
+import { buildWormholeWitness } from '../wormholeWitness'
+import {
+  loadReceiptTrieFixtures,
+  wormholeBurnFixture,
+  wormholeBurnNote,
+  wormholeBurnRecipient,
+} from './fixtures'
+
+const fixtures = Object.fromEntries(loadReceiptTrieFixtures())
+
+const { block, receipts } = wormholeBurnFixture
+const note = wormholeBurnNote
+const recipient = wormholeBurnRecipient
+const BURN_TX_INDEX = note.transactionIndex
+
+type ReceiptProof = Awaited<ReturnType<typeof buildReceiptTrie>>
+
+/**
+ * Assert that both the verifier and the circuit witness formatter reject a
+ * proof, for the same reason
+ */
+function expectRejected(proof: ReceiptProof, message: RegExp) {
+  expect(() => verifyReceiptProof(proof)).toThrow(message)
+  expect(() => formatReceiptProofWitness(proof)).toThrow(message)
+}
+
+/**
+ * Flip the low nibble of one byte of a hex string
+ */
+function flipNibble(value: Hex, byteIndex: number): Hex {
+  const bytes = hexToBytes(value)
+  bytes[byteIndex] ^= 0x0f
+  return bytesToHex(bytes)
+}
+
+/**
+ * A header for a tampered list of receipts, rehashed so that it is
+ * self-consistent: only the checks on the receipt itself can reject it
+ */
+function forgeBlock(receiptsRoot: Hex): RawRpcBlockHeader {
+  const header = { ...block, receiptsRoot }
+  return { ...header, hash: keccak256(encodeBlockHeader(header)) }
+}
+
+/**
+ * Tamper with the burn receipt and forge the block that commits to it
+ */
+async function forgeBurn(tamper: (receipt: RawRpcReceipt) => RawRpcReceipt) {
+  const forgedReceipts = receipts.map((receipt, i) =>
+    i === BURN_TX_INDEX ? tamper(receipt) : receipt,
+  )
+  const { rootHash } = await buildReceiptTrie({
+    receipts: forgedReceipts,
+    targetTxIndex: '0x0',
+  })
+  return { block: forgeBlock(rootHash), receipts: forgedReceipts }
+}
+
+describe('receipt proof tampering', async () => {
+  const proof = await buildReceiptTrie({
+    receipts,
+    targetTxIndex: numberToHex(BURN_TX_INDEX),
+  })
+
+  it('should accept the untampered proof', () => {
+    expect(verifyReceiptProof(proof).receipt.status).toBe('success')
+    expect(formatReceiptProofWitness(proof).depth).toBe(proof.proofNodes.length)
+  })
+
+  it('should reject a flipped nibble in any node', () => {
+    proof.proofNodes.forEach((node, i) => {
+      const proofNodes = [...proof.proofNodes]
+      proofNodes[i] = flipNibble(node, Math.floor(hexToBytes(node).length / 2))
+
+      expectRejected(
+        { ...proof, proofNodes },
+        new RegExp(`node ${i} hash .* does not match`),
+      )
+    })
+  })
+
+  it('should reject a flipped nibble in the root or the key', () => {
+    expectRejected(
+      { ...proof, rootHash: flipNibble(proof.rootHash, 31) },
+      /node 0 hash .* does not match/,
+    )
+    // 0x02 becomes 0x0d, which is not in the trie
+    expectRejected(
+      { ...proof, key: flipNibble(proof.key, 0) },
+      /key not found in trie/,
+    )
+  })
+
+  it('should reject swapped nodes', () => {
+    const [root, ...rest] = proof.proofNodes
+    expectRejected(
+      { ...proof, proofNodes: [rest[0], root, ...rest.slice(1)] },
+      /node 0 hash .* does not match/,
+    )
+    expectRejected(
+      { ...proof, proofNodes: [...proof.proofNodes].reverse() },
+      /node 0 hash .* does not match/,
+    )
+  })
+
+  it('should reject the proof for another key', () => {
+    // Transaction 1 is in the trie, but its leaf is not the proven one
+    expectRejected(
+      { ...proof, key: numberToHex(1) },
+      /node 2 hash .* does not match/,
+    )
+    // Transaction 3 is past the end of the block
+    expectRejected({ ...proof, key: numberToHex(3) }, /key not found in trie/)
+  })
+
+  it("should reject the proof against another block's root", () => {
+    const { block: other } = fixtures['synthetic-op-canyon-deposits']
+
+    expectRejected(
+      { ...proof, rootHash: other.receiptsRoot },
+      /node 0 hash .* does not match/,
+    )
+  })
+
+  it('should reject a truncated leaf', () => {
+    const leaf = proof.proofNodes.at(-1)!
+    const truncated = leaf.slice(0, -2) as Hex
+
+    expectRejected(
+      { ...proof, proofNodes: [...proof.proofNodes.slice(0, -1), truncated] },
+      /does not match/,
+    )
+    expectRejected(
+      { ...proof, proofNodes: proof.proofNodes.slice(0, -1) },
+      /proof is truncated/,
+    )
+    expectRejected(
+      { ...proof, proofNodes: [...proof.proofNodes, leaf] },
+      /extra nodes after leaf/,
+    )
+  })
+})
+
+describe('receipt proof extension nodes', async () => {
+  // Past index 127 the keys are 0x81XX, so 130 to 144 receipts put the keys
+  // from 0x8180 under an extension node with path [8]
+  const template = fixtures['synthetic-l1-all-tx-types'].receipts.find(
+    ({ type }) => type === '0x0',
+  )!
+  const manyReceipts = Array.from({ length: 140 }, (_, i) => ({
+    ...template,
+    transactionIndex: numberToHex(i),
+  }))
+  const proof = await buildReceiptTrie({
+    receipts: manyReceipts,
+    targetTxIndex: numberToHex(130),
+  })
+
+  it('should walk through the extension node', () => {
+    const extensions = proof.proofNodes
+      .map((node) => RLP.decode(hexToBytes(node)) as Uint8Array[])
+      .filter((items) => items.length === 2)
+      .map((items) => decodeHexPrefix(items[0]))
+      .filter(({ isLeaf }) => !isLeaf)
+
+    expect(extensions).toEqual([{ path: [8], isLeaf: false }])
+    expect(verifyReceiptProof(proof).receipt.status).toBe(
+      template.status === '0x1' ? 'success' : 'reverted',
+    )
+    expect(() => formatReceiptProofWitness(proof)).not.toThrow()
+  })
+
+  it('should reject a key that leaves the extension path', () => {
+    // 144 is 0x8190: it diverges from the extension on its last nibble
+    expectRejected({ ...proof, key: numberToHex(144) }, /key not found in trie/)
+    // 0x81 ends before the extension path
+    expectRejected({ ...proof, key: '0x81' }, /key not found in trie/)
+  })
+
+  it('should reject a key that runs past a leaf', () => {
+    expectRejected({ ...proof, key: `${proof.key}00` }, /key not found in trie/)
+  })
+
+  it('should reject malformed hex-prefix paths', () => {
+    expect(() => decodeHexPrefix(new Uint8Array())).toThrow(/empty node path/)
+    expect(() => decodeHexPrefix(Uint8Array.of(0x40))).toThrow(
+      /bad hex-prefix flag 4/,
+    )
+    // Even paths pad the flag nibble with a zero
+    expect(() => decodeHexPrefix(Uint8Array.of(0x01))).toThrow(
+      /bad hex-prefix padding/,
+    )
+    expect(decodeHexPrefix(Uint8Array.of(0x18))).toEqual({
+      path: [8],
+      isLeaf: false,
+    })
+    expect(decodeHexPrefix(Uint8Array.of(0x20, 0x80))).toEqual({
+      path: [8, 0],
+      isLeaf: true,
+    })
+  })
+})
+
+describe('receipt proof of a burn that did not happen', () => {
+  it('should prove a reverted receipt as reverted', async () => {
+    // Transaction 4 of this block reverted
+    const { receipts: blockReceipts } = fixtures['synthetic-l1-all-tx-types']
+    const proof = await buildReceiptTrie({
+      receipts: blockReceipts,
+      targetTxIndex: numberToHex(4),
+    })
+
+    expect(blockReceipts[4].status).toBe('0x0')
+    expect(verifyReceiptProof(proof).receipt.status).toBe('reverted')
+  })
+
+  it('should not build a witness for a burn whose transaction reverted', async () => {
+    const forged = await forgeBurn((receipt) => ({
+      ...receipt,
+      status: '0x0',
+    }))
+
+    await expect(
+      buildWormholeWitness({ note, recipient, ...forged }),
+    ).rejects.toThrow(/reverted/)
+  })
+
+  it('should not build a witness for a Transfer log of another contract', async () => {
+    const otherToken = '0x000000000000000000000000000000000000dEaD'
+    const forged = await forgeBurn((receipt) => ({
+      ...receipt,
+      logs: receipt.logs.map((log) => ({ ...log, address: otherToken })),
+    }))
+
+    const proof = await buildReceiptTrie({
+      receipts: forged.receipts,
+      targetTxIndex: numberToHex(BURN_TX_INDEX),
+    })
+    const { receipt } = verifyReceiptProof(proof)
+    expect(findTransferLogs(receipt, { token: note.token })).toEqual([])
+    expect(findTransferLogs(receipt, { token: otherToken })).toHaveLength(1)
+
+    await expect(
+      buildWormholeWitness({ note, recipient, ...forged }),
+    ).rejects.toThrow(/not a Transfer of/)
+  })
+
+  it('should not build a witness from receipts that do not match the block', async () => {
+    const { receipts: forgedReceipts } = await forgeBurn((receipt) => ({
+      ...receipt,
+      status: '0x0',
+    }))
+
+    await expect(
+      buildWormholeWitness({
+        note,
+        recipient,
+        block,
+        receipts: forgedReceipts,
+      }),
+    ).rejects.toThrow(/do not match the receiptsRoot/)
+  })
+})
@@ -0,0 +1,185 @@
+import { describe, expect, it } from 'vitest'
+import fc from 'fast-check'
+import { createMPT } from '@ethereumjs/mpt'
+import { RLP } from '@ethereumjs/rlp'
+import { TransactionType } from '@ethereumjs/tx'
+import { encodeReceipt } from '@ethereumjs/vm'
+import { bytesToHex, Hex, hexToBytes, numberToHex } from 'viem'
+import {
+  buildReceiptTrie,
+  buildReceiptTrieProofs,
+  DEPOSIT_TX_TYPE,
+  RawRpcReceipt,
+} from '../receiptTrieProof'
+import { verifyReceiptProof } from '../receiptTrieVerifier'
+
+/**
+ * Root of the receipts as the ethereumjs block builder computes it: each
+ * receipt goes through the VM's `encodeReceipt`, keyed by the RLP of its
+ * index. ethereumjs knows nothing of the Canyon deposit fields, so deposits
+ * are only generated without a depositReceiptVersion.
+ */
+async function referenceReceiptsRoot(receipts: RawRpcReceipt[]): Promise<Hex> {
+  const trie = await createMPT()
+  for (const [i, receipt] of receipts.entries()) {
+    const encoded = encodeReceipt(
+      {
+        status: receipt.status === '0x1' ? 1 : 0,
+        cumulativeBlockGasUsed: BigInt(receipt.cumulativeGasUsed),
+        bitvector: hexToBytes(receipt.logsBloom),
+        logs: receipt.logs.map(({ address, topics, data }) => [
+          hexToBytes(address),
+          topics.map((topic) => hexToBytes(topic)),
+          hexToBytes(data),
+        ]),
+      },
+      Number(receipt.type) as TransactionType,
+    )
+    await trie.put(RLP.encode(i), encoded)
+  }
+  return bytesToHex(trie.root())
+}
+
+const hexBytes = (length: number) =>
+  fc.uint8Array({ minLength: length, maxLength: length }).map(bytesToHex)
+
+const logArb = fc.record({
+  address: hexBytes(20),
+  topics: fc.array(hexBytes(32), { maxLength: 4 }),
+  // empty data is the common case of events with indexed arguments only
+  data: fc
+    .oneof(fc.constant(new Uint8Array()), fc.uint8Array({ maxLength: 300 }))
+    .map(bytesToHex),
+})
+
+const receiptArb = (maxLogs: number) =>
+  fc.record({
+    type: fc.constantFrom(0, 1, 2, 3, 4, DEPOSIT_TX_TYPE).map(numberToHex),
+    status: fc.constantFrom<Hex>('0x0', '0x1'),
+    // never zero in a block, and ethereumjs would not encode zero canonically
+    cumulativeGasUsed: fc
+      .bigInt({ min: 1n, max: 2n ** 64n - 1n })
+      .map((gas) => numberToHex(gas)),
+    logsBloom: hexBytes(256),
+    logs: fc.array(logArb, { maxLength: maxLogs }),
+    // pre-Canyon deposits carry a nonce that stays out of the root
+    depositNonce: fc.option(fc.bigInt({ min: 0n, max: 2n ** 64n - 1n }), {
+      nil: undefined,
+    }),
+  })
+
+/**
+ * Random receipts, indexed in order, with a nonce on deposits only
+ */
+const receiptsArb = (
+  constraints: {
+    minLength: number
+    maxLength: number
+    size?: fc.SizeForArbitrary
+  },
+  maxLogs: number,
+) =>
+  fc.array(receiptArb(maxLogs), constraints).map((receipts) =>
+    receipts.map(
+      ({ depositNonce, ...receipt }, i): RawRpcReceipt => ({
+        ...receipt,
+        transactionIndex: numberToHex(i),
+        ...(Number(receipt.type) === DEPOSIT_TX_TYPE &&
+        depositNonce !== undefined
+          ? { depositNonce: numberToHex(depositNonce) }
+          : {}),
+      }),
+    ),
+  )
+
+/**
+ * Check the root against the reference and every proof of the trie
+ */
+async function checkReceiptTrie(receipts: RawRpcReceipt[]) {
+  const expectedRoot = await referenceReceiptsRoot(receipts)
+  const { rootHash } = await buildReceiptTrie({
+    receipts,
+    targetTxIndex: '0x0',
+  })
+  expect(rootHash).toBe(expectedRoot)
+
+  const proofs = await buildReceiptTrieProofs({
+    receipts,
+    targetTxIndexes: receipts.map((_, i) => numberToHex(i)),
+  })
+  proofs.forEach((proof, i) => {
+    expect(proof.rootHash).toBe(expectedRoot)
+    expect(proof.key).toBe(bytesToHex(RLP.encode(i)))
+
+    const { receipt } = verifyReceiptProof(proof)
+    expect(receipt.type).toBe(Number(receipts[i].type))
+    expect(receipt.status).toBe(
+      receipts[i].status === '0x1' ? 'success' : 'reverted',
+    )
+    expect(receipt.cumulativeGasUsed).toBe(
+      BigInt(receipts[i].cumulativeGasUsed),
+    )
+    const logFields = (log: { address: Hex; topics: Hex[]; data: Hex }) => ({
+      address: log.address.toLowerCase(),
+      topics: log.topics,
+      data: log.data,
+    })
+    expect(receipt.logs.map(logFields)).toEqual(receipts[i].logs.map(logFields))
+  })
+  return proofs
+}
+
+describe('receipt trie fuzzing', () => {
+  it('should match the reference root and prove every receipt of small blocks', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        receiptsArb({ minLength: 1, maxLength: 20 }, 4),
+        async (receipts) => {
+          await checkReceiptTrie(receipts)
+        },
+      ),
+      { numRuns: 50 },
+    )
+  })
+
+  it('should prove the only receipt of single-receipt blocks', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        receiptsArb({ minLength: 1, maxLength: 1 }, 8),
+        async (receipts) => {
+          const [proof] = await checkReceiptTrie(receipts)
+          // The root is the leaf itself
+          expect(proof.key).toBe('0x80')
+          expect(proof.proofNodes).toHaveLength(1)
+        },
+      ),
+      { numRuns: 50 },
+    )
+  })
+
+  it('should encode the keys of indexes around 0x7f', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        // the whole range, not only lengths close to the minimum
+        receiptsArb({ minLength: 129, maxLength: 300, size: 'max' }, 1),
+        async (receipts) => {
+          const proofs = await checkReceiptTrie(receipts)
+
+          // 0 is the empty string, up to 0x7f a single byte, past that a
+          // length-prefixed big-endian integer
+          expect(proofs[0].key).toBe('0x80')
+          expect(proofs[1].key).toBe('0x01')
+          expect(proofs[127].key).toBe('0x7f')
+          expect(proofs[128].key).toBe('0x8180')
+          expect(proofs.at(-1)!.key).toBe(
+            bytesToHex(RLP.encode(receipts.length - 1)),
+          )
+          if (receipts.length > 256) {
+            expect(proofs[256].key).toBe('0x820100')
+          }
+        },
+      ),
+      { numRuns: 10 },
+    )
+  })
+})
@@ -0,0 +1,219 @@
+import { describe, expect, it } from 'vitest'
+import { RLP } from '@ethereumjs/rlp'
+import { bytesToHex, concatHex, keccak256, numberToHex, slice } from 'viem'
+import {
+  buildBlockHeaderProof,
+  verifyBlockHeaderProof,
+} from '../blockHeaderProof'
+import {
+  buildReceiptTrie,
+  buildReceiptTrieMultiproof,
+  buildReceiptTrieProofs,
+  DEPOSIT_TX_TYPE,
+  encodeRPCReceipt,
+  expandReceiptTrieMultiproof,
+} from '../receiptTrieProof'
+import { decodeReceipt } from '../receiptDecoder'
+import { verifyReceiptProof } from '../receiptTrieVerifier'
+import { loadReceiptTrieFixtures } from './fixtures'
+
+const fixtures = loadReceiptTrieFixtures()
+
+describe.each(fixtures)('receipt trie fixture %s', (_, fixture) => {
+  const { block, receipts } = fixture
+
+  it('should match the block receiptsRoot', async () => {
+    const { rootHash } = await buildReceiptTrie({
+      receipts,
+      targetTxIndex: '0x0',
+    })
+
+    expect(rootHash).toBe(block.receiptsRoot)
+  })
+
+  it('should prove every receipt of the block', async () => {
+    const proofs = await buildReceiptTrieProofs({
+      receipts,
+      targetTxIndexes: receipts.map((_, i) => numberToHex(i)),
+    })
+
+    proofs.forEach((proof, i) => {
+      expect(proof.rootHash).toBe(block.receiptsRoot)
+
+      const { receipt } = verifyReceiptProof(proof)
+      expect(receipt.type).toBe(Number(receipts[i].type))
+      expect(receipt.status).toBe(
+        receipts[i].status === '0x1' ? 'success' : 'reverted',
+      )
+      expect(receipt.logs).toHaveLength(receipts[i].logs.length)
+    })
+  })
+
+  it('should prove every receipt of the block with a multiproof', async () => {
+    const targetTxIndexes = receipts.map((_, i) => numberToHex(i))
+    const proofs = await buildReceiptTrieProofs({ receipts, targetTxIndexes })
+    const multiproof = await buildReceiptTrieMultiproof({
+      receipts,
+      targetTxIndexes,
+    })
+
+    // the root branch, at least, is shared by every proof
+    const proofNodeCount = proofs.reduce(
+      (count, { proofNodes }) => count + proofNodes.length,
+      0,
+    )
+    expect(multiproof.rootHash).toBe(block.receiptsRoot)
+    expect(multiproof.nodes.length).toBeLessThan(proofNodeCount)
+    expect(new Set(multiproof.nodes).size).toBe(multiproof.nodes.length)
+
+    const expanded = expandReceiptTrieMultiproof(multiproof)
+    expect(expanded).toEqual(proofs)
+    expanded.forEach((proof, i) => {
+      expect(verifyReceiptProof(proof).receipt.cumulativeGasUsed).toBe(
+        BigInt(receipts[i].cumulativeGasUsed),
+      )
+    })
+  })
+
+  it('should link the receiptsRoot to the block hash', () => {
+    const { blockHash, receiptsRoot } = buildBlockHeaderProof(block)
+
+    expect(blockHash).toBe(block.hash)
+    expect(receiptsRoot).toBe(block.receiptsRoot)
+  })
+})
+
+describe('block header proof', () => {
+  const [[, { block }]] = fixtures
+  const proof = buildBlockHeaderProof(block)
+
+  it('should verify the receiptsRoot against the block hash', () => {
+    expect(
+      verifyBlockHeaderProof({ ...proof, rootHash: block.receiptsRoot }),
+    ).toBe(true)
+  })
+
+  it('should reject truncated header bytes without throwing', () => {
+    // Hash the truncated bytes so that only the RLP decoding can fail
+    const headerRlp = slice(proof.headerRlp, 0, 100)
+
+    expect(
+      verifyBlockHeaderProof({
+        ...proof,
+        headerRlp,
+        blockHash: keccak256(headerRlp),
+        rootHash: block.receiptsRoot,
+      }),
+    ).toBe(false)
+  })
+})
+
+describe('receipt trie fixtures', () => {
+  it('should cover every receipt type', () => {
+    const types = new Set(
+      fixtures.flatMap(([, { receipts }]) =>
+        receipts.map((receipt) => Number(receipt.type)),
+      ),
+    )
+
+    expect([...types].sort((a, b) => a - b)).toEqual([
+      0,
+      1,
+      2,
+      3,
+      4,
+      DEPOSIT_TX_TYPE,
+    ])
+  })
+
+  it('should cover deposit receipts before and after Canyon', () => {
+    const deposits = fixtures.flatMap(([, { receipts }]) =>
+      receipts.filter(({ type }) => Number(type) === DEPOSIT_TX_TYPE),
+    )
+
+    expect(deposits.some((r) => r.depositReceiptVersion)).toBe(true)
+    expect(deposits.some((r) => !r.depositReceiptVersion)).toBe(true)
+  })
+})
+
+describe('receipt trie multiproof', () => {
+  it('should reject a node index out of range', async () => {
+    const [[, { receipts }]] = fixtures
+    const multiproof = await buildReceiptTrieMultiproof({
+      receipts,
+      targetTxIndexes: ['0x0'],
+    })
+    const [proof] = multiproof.proofs
+
+    expect(() =>
+      expandReceiptTrieMultiproof({
+        ...multiproof,
+        proofs: [{ ...proof, nodeIndexes: [...proof.nodeIndexes, 99] }],
+      }),
+    ).toThrow(/Multiproof node index 99 is out of range/)
+  })
+})
+
+describe('deposit receipt encoding', () => {
+  const byName = Object.fromEntries(fixtures)
+  // Receipts of the same deposit kind, the first deposit of the block
+  const [regolithDeposit] = byName['synthetic-op-pre-canyon-deposits'].receipts
+  const [canyonDeposit] = byName['synthetic-op-canyon-deposits'].receipts
+
+  it('should leave the depositNonce out before Canyon', () => {
+    expect(regolithDeposit.depositNonce).toBeDefined()
+    expect(regolithDeposit.depositReceiptVersion).toBeUndefined()
+
+    const { status, cumulativeGasUsed, logsBloom } = regolithDeposit
+    expect(bytesToHex(encodeRPCReceipt(regolithDeposit))).toBe(
+      concatHex([
+        numberToHex(DEPOSIT_TX_TYPE),
+        bytesToHex(
+          RLP.encode([
+            BigInt(status),
+            BigInt(cumulativeGasUsed),
+            logsBloom,
+            [],
+          ]),
+        ),
+      ]),
+    )
+
+    const decoded = decodeReceipt(encodeRPCReceipt(regolithDeposit))
+    expect(decoded.type).toBe(DEPOSIT_TX_TYPE)
+    expect(decoded.depositNonce).toBeUndefined()
+    expect(decoded.depositReceiptVersion).toBeUndefined()
+  })
+
+  it('should append the depositNonce and version from Canyon', () => {
+    const decoded = decodeReceipt(encodeRPCReceipt(canyonDeposit))
+
+    expect(decoded.type).toBe(DEPOSIT_TX_TYPE)
+    expect(decoded.depositNonce).toBe(BigInt(canyonDeposit.depositNonce!))
+    expect(decoded.depositReceiptVersion).toBe(1n)
+  })
+
+  it('should change the Canyon encoding with the depositNonce', () => {
+    const encoded = bytesToHex(encodeRPCReceipt(canyonDeposit))
+    const otherNonce = bytesToHex(
+      encodeRPCReceipt({ ...canyonDeposit, depositNonce: '0x1' }),
+    )
+    // before Canyon the nonce is not part of the encoding
+    const regolithOtherNonce = bytesToHex(
+      encodeRPCReceipt({ ...regolithDeposit, depositNonce: '0x1' }),
+    )
+
+    expect(otherNonce).not.toBe(encoded)
+    expect(regolithOtherNonce).toBe(
+      bytesToHex(encodeRPCReceipt(regolithDeposit)),
+    )
+  })
+
+  it('should reject a Canyon deposit receipt without a depositNonce', () => {
+    const { depositNonce: _, ...withoutNonce } = canyonDeposit
+
+    expect(() => encodeRPCReceipt(withoutNonce)).toThrow(
+      /Deposit receipt 0x0 has a depositReceiptVersion but no depositNonce/,
+    )
+  })
+})
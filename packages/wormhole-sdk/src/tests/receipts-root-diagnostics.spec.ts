@@ -0,0 +1,240 @@
+import { describe, expect, it } from 'vitest'
+import { Input, RLP } from '@ethereumjs/rlp'
+import { bytesToHex, concatHex, Hex, hexToBytes, numberToHex } from 'viem'
+import { encodeRPCReceipt, RawRpcReceipt } from '../receiptTrieProof'
+import {
+  computeLogsBloom,
+  diagnoseReceiptsRoot,
+  formatReceiptsRootDiagnostics,
+} from '../receiptsRootDiagnostics'
+import { loadReceiptTrieFixtures } from './fixtures'
+
+const fixtures = Object.fromEntries(loadReceiptTrieFixtures())
+
+// 3 Canyon deposits, then a legacy, an EIP-2930, two EIP-1559 and an EIP-7702
+// receipt, the last four with one log
+const { block, receipts } = fixtures['synthetic-op-canyon-deposits']
+const expectedRoot = block.receiptsRoot
+const rawReceipts = receipts.map((receipt) =>
+  bytesToHex(encodeRPCReceipt(receipt)),
+)
+
+/**
+ * The fixture receipts with one of them patched
+ */
+function corrupt(index: number, patch: Partial<RawRpcReceipt>) {
+  return receipts.map((receipt, i) =>
+    i === index ? { ...receipt, ...patch } : receipt,
+  )
+}
+
+/**
+ * The raw receipt of a receipt, with its fields RLP encoded as given
+ */
+function encodeRawReceipt(type: number, fields: Input[]): Hex {
+  const encoded = bytesToHex(RLP.encode(fields))
+  return type === 0 ? encoded : concatHex([numberToHex(type), encoded])
+}
+
+describe('receipts root diagnostics', () => {
+  it('should find nothing wrong with the receipts of the block', async () => {
+    const diagnostics = await diagnoseReceiptsRoot({
+      receipts,
+      expectedRoot,
+      rawReceipts,
+    })
+
+    expect(diagnostics).toEqual({
+      computedRoot: expectedRoot,
+      expectedRoot,
+      matches: true,
+      issues: [],
+    })
+    expect(formatReceiptsRootDiagnostics(diagnostics)).toBe(
+      `receipts root ${expectedRoot} matches`,
+    )
+    for (const receipt of receipts) {
+      expect(computeLogsBloom(receipt.logs)).toBe(receipt.logsBloom)
+    }
+  })
+
+  it('should report a logsBloom that does not match the logs', async () => {
+    const { logsBloom } = receipts[0]
+    const diagnostics = await diagnoseReceiptsRoot({
+      receipts: corrupt(4, { logsBloom }),
+      expectedRoot,
+    })
+
+    expect(diagnostics.matches).toBe(false)
+    expect(diagnostics.issues).toEqual([
+      {
+        transactionIndex: 4,
+        field: 'logsBloom',
+        message: 'logsBloom does not match the bloom of its logs',
+      },
+    ])
+  })
+
+  it('should report a cumulativeGasUsed lower than the previous one', async () => {
+    const diagnostics = await diagnoseReceiptsRoot({
+      receipts: corrupt(5, { cumulativeGasUsed: '0x1' }),
+      expectedRoot,
+    })
+
+    expect(diagnostics.matches).toBe(false)
+    expect(diagnostics.issues).toEqual([
+      {
+        transactionIndex: 5,
+        field: 'cumulativeGasUsed',
+        message: `cumulativeGasUsed 1 is lower than the previous receipt's ${BigInt(receipts[4].cumulativeGasUsed)}`,
+      },
+    ])
+  })
+
+  it('should report a transactionIndex out of sequence', async () => {
+    // receipt 4 overwrites receipt 3 in the trie
+    const diagnostics = await diagnoseReceiptsRoot({
+      receipts: corrupt(4, { transactionIndex: '0x3' }),
+      expectedRoot,
+    })
+
+    expect(diagnostics.matches).toBe(false)
+    expect(diagnostics.issues).toEqual([
+      {
+        transactionIndex: 3,
+        field: 'transactionIndex',
+        message: 'receipt at position 4 has transactionIndex 3',
+      },
+    ])
+  })
+
+  it('should report each field that differs from the raw receipt', async () => {
+    const [log] = receipts[6].logs
+    const diagnostics = await diagnoseReceiptsRoot({
+      receipts: corrupt(6, {
+        logs: [{ ...log, data: numberToHex(1, { size: 32 }) }],
+        cumulativeGasUsed: numberToHex(
+          BigInt(receipts[6].cumulativeGasUsed) + 1n,
+        ),
+      }),
+      expectedRoot,
+      rawReceipts,
+    })
+
+    expect(diagnostics.matches).toBe(false)
+    expect(diagnostics.issues).toEqual([
+      {
+        transactionIndex: 6,
+        field: 'cumulativeGasUsed',
+        message: 'cumulativeGasUsed differs from the raw receipt',
+      },
+      {
+        transactionIndex: 6,
+        field: 'logs[0].data',
+        message: 'logs[0].data differs from the raw receipt',
+      },
+    ])
+  })
+
+  it('should report a logsBloom both on its own and against the raw receipt', async () => {
+    const diagnostics = await diagnoseReceiptsRoot({
+      receipts: corrupt(7, { logsBloom: receipts[0].logsBloom }),
+      expectedRoot,
+      rawReceipts,
+    })
+
+    expect(diagnostics.issues.map(({ field }) => field)).toEqual([
+      'logsBloom',
+      'logsBloom',
+    ])
+  })
+
+  it('should report an encoding difference with equal fields', async () => {
+    const { status, cumulativeGasUsed, logsBloom } = receipts[3]
+    // cumulativeGasUsed with a leading zero byte
+    const padded = concatHex(['0x00', cumulativeGasUsed])
+    const raw = encodeRawReceipt(0, [
+      BigInt(status),
+      hexToBytes(padded),
+      logsBloom,
+      [],
+    ])
+    const diagnostics = await diagnoseReceiptsRoot({
+      receipts,
+      expectedRoot,
+      rawReceipts: rawReceipts.map((rawReceipt, i) =>
+        i === 3 ? raw : rawReceipt,
+      ),
+    })
+
+    expect(diagnostics.issues).toEqual([
+      {
+        transactionIndex: 3,
+        field: 'encoding',
+        message:
+          'encoded receipt bytes differ from the raw receipt with equal fields',
+      },
+    ])
+  })
+
+  it('should report missing raw receipts', async () => {
+    const diagnostics = await diagnoseReceiptsRoot({
+      receipts,
+      expectedRoot,
+      rawReceipts: rawReceipts.slice(0, 6),
+    })
+
+    expect(diagnostics.issues).toEqual([
+      {
+        transactionIndex: 6,
+        field: 'receipts',
+        message: '8 receipts but 6 raw receipts',
+      },
+    ])
+  })
+
+  it('should expect pre-Canyon raw receipts to keep the depositNonce', async () => {
+    const fixture = fixtures['synthetic-op-pre-canyon-deposits']
+    const [deposit] = fixture.receipts
+    const raw = encodeRawReceipt(0x7e, [
+      BigInt(deposit.status),
+      BigInt(deposit.cumulativeGasUsed),
+      deposit.logsBloom,
+      [],
+      BigInt(deposit.depositNonce!),
+    ])
+
+    const diagnostics = await diagnoseReceiptsRoot({
+      receipts: fixture.receipts,
+      expectedRoot: fixture.block.receiptsRoot,
+      rawReceipts: fixture.receipts.map((receipt, i) =>
+        i === 0 ? raw : bytesToHex(encodeRPCReceipt(receipt)),
+      ),
+    })
+
+    expect(diagnostics).toMatchObject({ matches: true, issues: [] })
+  })
+
+  it('should format the issues of a mismatch', async () => {
+    const diagnostics = await diagnoseReceiptsRoot({
+      receipts: corrupt(4, { logsBloom: receipts[0].logsBloom }),
+      expectedRoot,
+    })
+
+    expect(formatReceiptsRootDiagnostics(diagnostics)).toBe(
+      [
+        `computed receipts root ${diagnostics.computedRoot} does not match ${expectedRoot}`,
+        '  receipt 4, logsBloom: logsBloom does not match the bloom of its logs',
+      ].join('\n'),
+    )
+
+    const missing = await diagnoseReceiptsRoot({
+      receipts: receipts.slice(0, -1),
+      expectedRoot,
+    })
+    expect(missing.issues).toEqual([])
+    expect(formatReceiptsRootDiagnostics(missing)).toMatch(
+      /no receipt looks wrong, check for missing receipts$/,
+    )
+  })
+})
@@ -0,0 +1,253 @@
+import { describe, expect, it } from 'vitest'
+import { createMerkleProof, createMPT } from '@ethereumjs/mpt'
+import { RLP } from '@ethereumjs/rlp'
+import {
+  bytesToHex,
+  getAddress,
+  Hex,
+  hexToBytes,
+  keccak256,
+  numberToHex,
+  pad,
+} from 'viem'
+import { encodeBlockHeader, RawRpcBlockHeader } from '../blockHeaderProof'
+import {
+  buildBurnBalanceWitness,
+  RawRpcAccountProof,
+  soladyBalanceSlot,
+  verifyBurnBalanceProof,
+} from '../storageProof'
+import { loadReceiptTrieFixtures } from './fixtures'
+
+const { block: fixtureBlock } = Object.fromEntries(loadReceiptTrieFixtures())[
+  'synthetic-op-wormhole-burn'
+]
+
+const token = getAddress(pad('0x70ce', { size: 20 }))
+const burnAddress = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8'
+const emptyAddress = getAddress(pad('0xe0', { size: 20 }))
+const burnedAmount = 25n * 10n ** 17n
+const codeHash = keccak256('0x6000')
+
+/**
+ * A state with the token and a few other accounts, and the token storage
+ * holding the balance of the burn address next to other holders, proven the
+ * way eth_getProof answers
+ */
+async function buildState() {
+  const storage = await createMPT()
+  const holders: Array<[Hex, bigint]> = [
+    [burnAddress, burnedAmount],
+    ...Array.from({ length: 20 }, (_, i): [Hex, bigint] => [
+      pad(numberToHex(i + 1), { size: 20 }),
+      BigInt(i + 1),
+    ]),
+  ]
+  for (const [owner, balance] of holders) {
+    await storage.put(
+      hexToBytes(keccak256(soladyBalanceSlot(owner))),
+      RLP.encode(balance),
+    )
+  }
+
+  const state = await createMPT()
+  const account = (storageRoot: Uint8Array) =>
+    RLP.encode([1n, 0n, storageRoot, hexToBytes(codeHash)])
+  await state.put(hexToBytes(keccak256(token)), account(storage.root()))
+  for (let i = 1; i <= 30; i++) {
+    await state.put(
+      hexToBytes(keccak256(pad(numberToHex(i), { size: 20 }))),
+      account(hexToBytes(keccak256('0x80'))),
+    )
+  }
+
+  const proveSlot = async (owner: Hex) => {
+    const slot = soladyBalanceSlot(owner)
+    const proof = await createMerkleProof(storage, hexToBytes(keccak256(slot)))
+    const value = holders.find(([holder]) => holder === owner)?.[1] ?? 0n
+    return {
+      key: slot,
+      value: numberToHex(value),
+      proof: proof.map((node) => bytesToHex(node)),
+    }
+  }
+
+  const accountProof: RawRpcAccountProof = {
+    address: token,
+    accountProof: (
+      await createMerkleProof(state, hexToBytes(keccak256(token)))
+    ).map((node) => bytesToHex(node)),
+    balance: '0x0',
+    codeHash,
+    nonce: '0x1',
+    storageHash: bytesToHex(storage.root()),
+    storageProof: [await proveSlot(burnAddress)],
+  }
+
+  // The fixture header, committing to this state instead
+  const header = { ...fixtureBlock, stateRoot: bytesToHex(state.root()) }
+  const block: RawRpcBlockHeader = {
+    ...header,
+    hash: keccak256(encodeBlockHeader(header)),
+  }
+
+  return { block, proof: accountProof, proveSlot }
+}
+
+const read = (bytes: number[], offset: number, length: number) =>
+  bytesToHex(Uint8Array.from(bytes.slice(offset, offset + length)))
+
+describe('storage proof', async () => {
+  const { block, proof, proveSlot } = await buildState()
+
+  it('should compute the Solady balance slot of an owner', () => {
+    // Read back from the storage of a deployed ZkWormholesERC20
+    expect(soladyBalanceSlot(burnAddress)).toBe(
+      '0xe7b43c2ec1dcdd7baff3c93d32789cbc886a13eb88e8e4e21792f9867e70f9e6',
+    )
+  })
+
+  it('should verify the balance slot against the state root', () => {
+    const { balance, storageRoot } = verifyBurnBalanceProof({
+      stateRoot: block.stateRoot,
+      slot: soladyBalanceSlot(burnAddress),
+      proof,
+    })
+
+    expect(balance).toBe(burnedAmount)
+    expect(storageRoot).toBe(proof.storageHash)
+  })
+
+  it('should format the header, account and storage proofs for the circuit', () => {
+    const witness = buildBurnBalanceWitness({
+      block,
+      owner: burnAddress,
+      proof,
+    })
+
+    expect(witness.balance).toBe(burnedAmount)
+    expect(witness.blockHash).toBe(block.hash)
+    const headerRlp = Array.from(hexToBytes(witness.headerRlp))
+    expect(read(headerRlp, witness.stateRootOffset, 32)).toBe(block.stateRoot)
+
+    // The storage root sits inside the account leaf
+    const { account, storage } = witness
+    expect(account.depth).toBe(proof.accountProof.length)
+    expect(account.keyNibblesLength).toBe(64)
+    expect(
+      read(
+        account.nodes[account.depth - 1],
+        account.leafValueOffset + witness.storageRootOffset,
+        32,
+      ),
+    ).toBe(proof.storageHash)
+
+    expect(storage.depth).toBe(proof.storageProof[0].proof.length)
+    expect(
+      read(
+        storage.nodes[storage.depth - 1],
+        storage.leafValueOffset,
+        storage.leafValueLength,
+      ),
+    ).toBe(bytesToHex(RLP.encode(burnedAmount)))
+
+    expect(() =>
+      buildBurnBalanceWitness({
+        block,
+        owner: burnAddress,
+        proof,
+        bounds: { maxDepth: 1 },
+      }),
+    ).toThrow(/exceeds maxDepth 1/)
+  })
+
+  it('should reject a proof that does not match the block', () => {
+    const { block: other } = Object.fromEntries(loadReceiptTrieFixtures())[
+      'synthetic-op-canyon-deposits'
+    ]
+
+    expect(() =>
+      buildBurnBalanceWitness({ block: other, owner: burnAddress, proof }),
+    ).toThrow(/Invalid account proof: node 0 hash .* does not match/)
+    expect(() =>
+      buildBurnBalanceWitness({
+        block: { ...block, stateRoot: other.stateRoot },
+        owner: burnAddress,
+        proof,
+      }),
+    ).toThrow(/Block header hash/)
+  })
+
+  it('should reject a tampered eth_getProof answer', async () => {
+    const stateRoot = block.stateRoot
+    const slot = soladyBalanceSlot(burnAddress)
+    const [slotProof] = proof.storageProof
+
+    expect(() =>
+      verifyBurnBalanceProof({
+        stateRoot,
+        slot,
+        proof: { ...proof, storageHash: keccak256('0x80') },
+      }),
+    ).toThrow(/storage root .* does not match/)
+    expect(() =>
+      verifyBurnBalanceProof({
+        stateRoot,
+        slot,
+        proof: { ...proof, storageProof: [{ ...slotProof, value: '0x1' }] },
+      }),
+    ).toThrow(/proven value 2500000000000000000 .* does not match 0x1/)
+    expect(() =>
+      verifyBurnBalanceProof({
+        stateRoot,
+        slot,
+        proof: {
+          ...proof,
+          storageProof: [{ ...slotProof, proof: slotProof.proof.slice(0, -1) }],
+        },
+      }),
+    ).toThrow(/Invalid storage proof: proof is truncated/)
+    // Another holder's proof, claimed for the burn address
+    const otherSlotProof = await proveSlot(pad('0x01', { size: 20 }))
+    expect(() =>
+      verifyBurnBalanceProof({
+        stateRoot,
+        slot,
+        proof: {
+          ...proof,
+          storageProof: [{ ...otherSlotProof, key: slot }],
+        },
+      }),
+    ).toThrow(/Invalid storage proof/)
+    expect(() =>
+      verifyBurnBalanceProof({
+        stateRoot,
+        slot: soladyBalanceSlot(emptyAddress),
+        proof,
+      }),
+    ).toThrow(/no proof of slot/)
+  })
+
+  it('should not build a witness for an address without tokens', async () => {
+    const emptySlotProof = await proveSlot(emptyAddress)
+
+    expect(() =>
+      buildBurnBalanceWitness({
+        block,
+        owner: emptyAddress,
+        proof: { ...proof, storageProof: [emptySlotProof] },
+      }),
+    ).toThrow(/holds no/)
+    // The slot is absent from the trie, whatever value is claimed
+    expect(() =>
+      verifyBurnBalanceProof({
+        stateRoot: block.stateRoot,
+        slot: emptySlotProof.key,
+        proof: {
+          ...proof,
+          storageProof: [{ ...emptySlotProof, value: '0x1' }],
+        },
+      }),
+    ).toThrow(/Invalid storage proof: key not found in trie/)
+  })
+})
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest'
+import { getAddress, numberToHex } from 'viem'
+import { normalizeTransaction } from '../blockTransactions'
+import { verifyReceiptProof } from '../receiptTrieVerifier'
+import {
+  buildTransactionReceiptProofs,
+  buildTransactionTrie,
+  verifyTransactionProof,
+} from '../transactionTrieProof'
+import { loadReceiptTrieFixtures } from './fixtures'
+
+const fixtures = loadReceiptTrieFixtures()
+
+describe.each(fixtures)('transaction trie fixture %s', (_, fixture) => {
+  const { block, transactions, receipts } = fixture
+
+  it('should match the block transactionsRoot', async () => {
+    const { rootHash } = await buildTransactionTrie({
+      transactions,
+      targetTxIndex: '0x0',
+    })
+
+    expect(rootHash).toBe(block.transactionsRoot)
+    expect(transactions.map(({ hash }) => hash)).toEqual(block.transactions)
+  })
+
+  it('should prove every transaction next to its receipt', async () => {
+    for (const [i, tx] of transactions.entries()) {
+      const proofs = await buildTransactionReceiptProofs({
+        block,
+        transactions,
+        receipts,
+        targetTxIndex: numberToHex(i),
+      })
+      expect(proofs.transaction.key).toBe(proofs.receipt.key)
+
+      const { type, to } = verifyTransactionProof(proofs.transaction)
+      expect(type).toBe(Number(tx.type))
+      expect(to).toBe(tx.to && getAddress(tx.to))
+      expect(verifyReceiptProof(proofs.receipt).receipt.type).toBe(type)
+    }
+  })
+})
+
+describe('transaction trie', () => {
+  const fixture = Object.fromEntries(fixtures)['synthetic-op-wormhole-burn']
+  const BURN_TX_INDEX = 2
+
+  it('should cover every transaction type', () => {
+    const types = new Set(
+      fixtures.flatMap(([, { transactions }]) =>
+        transactions.map((tx) => Number(tx.type)),
+      ),
+    )
+
+    expect([...types].sort((a, b) => a - b)).toEqual([0, 1, 2, 3, 4, 0x7e])
+  })
+
+  it('should bind the burn receipt to a call of the token contract', async () => {
+    const { transaction, receipt } = await buildTransactionReceiptProofs({
+      ...fixture,
+      targetTxIndex: numberToHex(BURN_TX_INDEX),
+    })
+
+    const [transfer] = verifyReceiptProof(receipt).receipt.logs
+    expect(verifyTransactionProof(transaction).to).toBe(
+      getAddress(transfer.address),
+    )
+  })
+
+  it('should reject a transaction that does not match its hash', async () => {
+    const transactions = fixture.transactions.map((tx, i) =>
+      i === BURN_TX_INDEX ? { ...tx, to: fixture.transactions[0].to } : tx,
+    )
+
+    await expect(
+      buildTransactionTrie({ transactions, targetTxIndex: '0x0' }),
+    ).rejects.toThrow(/Transaction 0x2 encodes to hash .*, not/)
+    await expect(
+      buildTransactionTrie({
+        transactions: [{ ...fixture.transactions[0], type: '0x5' }],
+        targetTxIndex: '0x0',
+      }),
+    ).rejects.toThrow(/unsupported type 0x5/)
+    const { maxFeePerGas: _, ...withoutFee } = fixture.transactions[1]
+    await expect(
+      buildTransactionTrie({
+        transactions: [withoutFee],
+        targetTxIndex: '0x0',
+      }),
+    ).rejects.toThrow(/Transaction 0x1 of type 0x2 has no maxFeePerGas/)
+  })
+
+  it('should reject transactions or receipts of another block', async () => {
+    const other = Object.fromEntries(fixtures)['synthetic-op-canyon-deposits']
+
+    await expect(
+      buildTransactionReceiptProofs({
+        ...fixture,
+        transactions: other.transactions,
+        targetTxIndex: '0x0',
+      }),
+    ).rejects.toThrow(/do not match the transactionsRoot/)
+    await expect(
+      buildTransactionReceiptProofs({
+        ...fixture,
+        receipts: other.receipts,
+        targetTxIndex: '0x0',
+      }),
+    ).rejects.toThrow(/do not match the receiptsRoot/)
+  })
+
+  it('should drop the fields nodes add to transactions', () => {
+    const [deposit, , burn] = fixture.transactions
+    // eth_getBlockByNumber adds the block fields and an effective gasPrice
+    const fromNode = {
+      ...burn,
+      blockHash: fixture.block.hash,
+      blockNumber: fixture.block.number,
+      gasPrice: '0x1',
+    } as typeof burn
+
+    expect(normalizeTransaction(fromNode)).toEqual(burn)
+    expect(normalizeTransaction(deposit)).toEqual(deposit)
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest'
+import { hexToBigInt, pad } from 'viem'
+import { findBurnSecret } from '../burnAddress'
+import {
+  buildWormholeWitness,
+  deriveReceiptFact,
+  toPublicSignalsArray,
+} from '../wormholeWitness'
+import {
+  wormholeBurnFixture,
+  wormholeBurnNote,
+  wormholeBurnRecipient,
+} from './fixtures'
+
+const { block, receipts } = wormholeBurnFixture
+const note = wormholeBurnNote
+const recipient = wormholeBurnRecipient
+
+describe('wormhole witness', () => {
+  it('should build the witness of the burn a note points at', async () => {
+    const witness = await buildWormholeWitness({
+      note,
+      block,
+      receipts,
+      recipient,
+    })
+
+    expect(witness.blockHash).toBe(block.hash)
+    expect(witness.log.log.address).toBe(note.token)
+    expect(witness.publicSignals).toEqual({
+      receiptFact: deriveReceiptFact({ chainId: 901, blockHash: block.hash }),
+      token: hexToBigInt(note.token),
+      withdrawAmount: note.amount,
+      changeCommitment: 0n,
+      nullifier: hexToBigInt(witness.nullifier),
+      recipient: hexToBigInt(recipient),
+      relayerFee: 0n,
+      relayer: 0n,
+    })
+    expect(toPublicSignalsArray(witness.publicSignals)[4]).toBe(
+      hexToBigInt(witness.nullifier),
+    )
+  })
+
+  it('should reject a note that does not match its burn', async () => {
+    await expect(
+      buildWormholeWitness({
+        note: { ...note, amount: 1n },
+        block,
+        receipts,
+        recipient,
+      }),
+    ).rejects.toThrow(/the note claims 1/)
+    await expect(
+      buildWormholeWitness({
+        note,
+        block,
+        receipts,
+        recipient,
+        relayerFee: note.amount + 1n,
+      }),
+    ).rejects.toThrow(/is not between 0 and the note amount/)
+    await expect(
+      buildWormholeWitness({
+        note,
+        block,
+        receipts,
+        recipient,
+        relayerFee: 1n,
+      }),
+    ).rejects.toThrow(/has no relayer to pay/)
+    await expect(
+      buildWormholeWitness({
+        note: { ...note, transactionIndex: 1 },
+        block,
+        receipts,
+        recipient,
+      }),
+    ).rejects.toThrow(/not a Transfer/)
+    await expect(
+      buildWormholeWitness({
+        note: { ...note, secret: findBurnSecret(pad('0x0c', { size: 32 })) },
+        block,
+        receipts,
+        recipient,
+      }),
+    ).rejects.toThrow(/burn address of the note/)
+    await expect(
+      buildWormholeWitness({
+        note: { ...note, blockNumber: note.blockNumber + 1n },
+        block,
+        receipts,
+        recipient,
+      }),
+    ).rejects.toThrow(/is not the block of the note/)
+  })
+})
@@ -0,0 +1,327 @@
+import { Input, RLP } from '@ethereumjs/rlp'
+import { TransactionType } from '@ethereumjs/tx'
+import { concatBytes, intToBytes } from '@ethereumjs/util'
+import { bytesToHex, getAddress, Hex, hexToBytes, keccak256 } from 'viem'
+import { RawRpcBlockHeader } from './blockHeaderProof'
+import {
+  createIndexedProof,
+  createIndexedTrie,
+  IndexedTrieProof,
+} from './indexedTrie'
+import {
+  buildReceiptTrie,
+  DEPOSIT_TX_TYPE,
+  RawRpcReceipt,
+} from './receiptTrieProof'
+import { verifyTrieProof } from './receiptTrieVerifier'
+
+/**
+ * Raw transaction format from eth_getBlockByNumber with full transactions
+ * Only the fields of the transaction type are present, the others are
+ * optional
+ */
+export type RawRpcTransaction = {
+  type: Hex // "0x0", "0x1", "0x2", "0x3", "0x4" or "0x7e"
+  hash: Hex
+  transactionIndex: Hex
+  nonce: Hex
+  gas: Hex
+  to: Hex | null // null for contract creations
+  value: Hex
+  input: Hex
+  v?: Hex
+  r?: Hex
+  s?: Hex
+  yParity?: Hex // EIP-2930 and later, v on older nodes
+  chainId?: Hex
+  gasPrice?: Hex // legacy and EIP-2930
+  maxPriorityFeePerGas?: Hex // EIP-1559 and later
+  maxFeePerGas?: Hex // EIP-1559 and later
+  accessList?: Array<{
+    address: Hex
+    storageKeys: Hex[]
+  }>
+  maxFeePerBlobGas?: Hex // EIP-4844
+  blobVersionedHashes?: Hex[] // EIP-4844
+  authorizationList?: Array<{
+    chainId: Hex
+    address: Hex
+    nonce: Hex
+    yParity: Hex
+    r: Hex
+    s: Hex
+  }> // EIP-7702
+  // OP Stack deposits only (type "0x7e")
+  sourceHash?: Hex
+  from?: Hex
+  mint?: Hex // left out by some nodes when zero
+  isSystemTx?: boolean // left out by some nodes when false
+}
+
+/**
+ * Arguments for building a transaction trie
+ */
+type BuildTransactionTrieArgs = {
+  transactions: RawRpcTransaction[]
+  targetTxIndex: Hex
+}
+
+/**
+ * Return type for building a transaction trie
+ */
+type BuildTransactionTrieReturn = IndexedTrieProof
+
+/**
+ * Arguments for proving a transaction and its receipt
+ */
+type BuildTransactionReceiptProofsArgs = {
+  // the block of the transaction, as returned by eth_getBlockByNumber
+  block: RawRpcBlockHeader
+  transactions: RawRpcTransaction[]
+  receipts: RawRpcReceipt[]
+  targetTxIndex: Hex
+}
+
+/**
+ * Return type for proving a transaction and its receipt
+ */
+type BuildTransactionReceiptProofsReturn = {
+  transaction: BuildTransactionTrieReturn
+  receipt: BuildTransactionTrieReturn
+}
+
+/**
+ * Return type for verifying a transaction proof
+ */
+type VerifyTransactionProofReturn = {
+  value: Hex
+  type: number
+  // null for contract creations
+  to: Hex | null
+}
+
+/**
+ * Read a field the transaction type requires
+ */
+function required<K extends keyof RawRpcTransaction>(
+  transaction: RawRpcTransaction,
+  field: K,
+): NonNullable<RawRpcTransaction[K]> {
+  const value = transaction[field]
+  if (value === undefined || value === null) {
+    throw new Error(
+      `Transaction ${transaction.transactionIndex} of type ${transaction.type} has no ${field}`,
+    )
+  }
+  return value
+}
+
+/**
+ * Encode a raw RPC transaction for the transaction trie, as it was signed
+ */
+export function encodeRPCTransaction(
+  transaction: RawRpcTransaction,
+): Uint8Array {
+  const txType = Number(transaction.type)
+  // quantities go through BigInt so that zero encodes as the empty string
+  const quantity = (field: keyof RawRpcTransaction) =>
+    BigInt(required(transaction, field) as Hex)
+
+  const to = transaction.to ?? Uint8Array.from([])
+  const accessList = () =>
+    required(transaction, 'accessList').map(({ address, storageKeys }) => [
+      address,
+      storageKeys,
+    ])
+  const signature = () => [
+    BigInt(transaction.yParity ?? required(transaction, 'v')),
+    quantity('r'),
+    quantity('s'),
+  ]
+
+  let fields: Input[]
+  switch (txType) {
+    case TransactionType.Legacy:
+      fields = [
+        quantity('nonce'),
+        quantity('gasPrice'),
+        quantity('gas'),
+        to,
+        quantity('value'),
+        transaction.input,
+        // v carries the chain id since EIP-155
+        quantity('v'),
+        quantity('r'),
+        quantity('s'),
+      ]
+      // Legacy transactions (type 0) are NOT prefixed with type byte
+      return RLP.encode(fields)
+    case TransactionType.AccessListEIP2930:
+      fields = [
+        quantity('chainId'),
+        quantity('nonce'),
+        quantity('gasPrice'),
+        quantity('gas'),
+        to,
+        quantity('value'),
+        transaction.input,
+        accessList(),
+        ...signature(),
+      ]
+      break
+    case TransactionType.FeeMarketEIP1559:
+    case TransactionType.BlobEIP4844:
+    case TransactionType.EOACodeEIP7702:
+      fields = [
+        quantity('chainId'),
+        quantity('nonce'),
+        quantity('maxPriorityFeePerGas'),
+        quantity('maxFeePerGas'),
+        quantity('gas'),
+        to,
+        quantity('value'),
+        transaction.input,
+        accessList(),
+      ]
+      if (txType === TransactionType.BlobEIP4844) {
+        fields.push(
+          quantity('maxFeePerBlobGas'),
+          required(transaction, 'blobVersionedHashes'),
+        )
+      }
+      if (txType === TransactionType.EOACodeEIP7702) {
+        fields.push(
+          required(transaction, 'authorizationList').map((authorization) => [
+            BigInt(authorization.chainId),
+            authorization.address,
+            BigInt(authorization.nonce),
+            BigInt(authorization.yParity),
+            BigInt(authorization.r),
+            BigInt(authorization.s),
+          ]),
+        )
+      }
+      fields.push(...signature())
+      break
+    case DEPOSIT_TX_TYPE:
+      // Deposits are not signed: the nonce of the RPC object is the deposit
+      // nonce of the receipt and stays out of the encoding
+      fields = [
+        required(transaction, 'sourceHash'),
+        required(transaction, 'from'),
+        to,
+        BigInt(transaction.mint ?? 0),
+        quantity('value'),
+        quantity('gas'),
+        transaction.isSystemTx ? Uint8Array.from([1]) : Uint8Array.from([]),
+        transaction.input,
+      ]
+      break
+    default:
+      throw new Error(
+        `Transaction ${transaction.transactionIndex} has unsupported type ${transaction.type}`,
+      )
+  }
+
+  return concatBytes(intToBytes(txType), RLP.encode(fields))
+}
+
+/**
+ * Encode a transaction and check that it hashes to the hash the node
+ * returned, so that a field the encoding misses cannot go unnoticed
+ */
+function encodeCheckedTransaction(transaction: RawRpcTransaction): Uint8Array {
+  const encoded = encodeRPCTransaction(transaction)
+  const hash = keccak256(encoded)
+  if (hash !== transaction.hash.toLowerCase()) {
+    throw new Error(
+      `Transaction ${transaction.transactionIndex} encodes to hash ${hash}, not ${transaction.hash}`,
+    )
+  }
+  return encoded
+}
+
+/**
+ * Build a Merkle Patricia Trie from the given transactions.
+ * @param param0 - The block transactions and the transaction index to prove.
+ * @returns The return values of a transaction trie
+ */
+export async function buildTransactionTrie({
+  transactions,
+  targetTxIndex,
+}: BuildTransactionTrieArgs): Promise<BuildTransactionTrieReturn> {
+  const trie = await createIndexedTrie(transactions, encodeCheckedTransaction)
+
+  return createIndexedProof(trie, targetTxIndex)
+}
+
+/**
+ * Prove a transaction and its receipt at the same index, checking both
+ * against the roots of their block.
+ * @param param0 - The block, its transactions and receipts, and the
+ * transaction index to prove.
+ * @returns The transaction and receipt proofs
+ */
+export async function buildTransactionReceiptProofs({
+  block,
+  transactions,
+  receipts,
+  targetTxIndex,
+}: BuildTransactionReceiptProofsArgs): Promise<BuildTransactionReceiptProofsReturn> {
+  const transaction = await buildTransactionTrie({
+    transactions,
+    targetTxIndex,
+  })
+  if (transaction.rootHash !== block.transactionsRoot) {
+    throw new Error(
+      `Transactions do not match the transactionsRoot of block ${BigInt(block.number)}`,
+    )
+  }
+
+  const receipt = await buildReceiptTrie({ receipts, targetTxIndex })
+  if (receipt.rootHash !== block.receiptsRoot) {
+    throw new Error(
+      `Receipts do not match the receiptsRoot of block ${BigInt(block.number)}`,
+    )
+  }
+
+  return { transaction, receipt }
+}
+
+/**
+ * Verify a transaction proof against its root and read the recipient of the
+ * proven transaction.
+ * @param proof - The transaction proof from `buildTransactionTrie`
+ * @returns The proven transaction bytes, its type and its `to`
+ */
+export function verifyTransactionProof(
+  proof: BuildTransactionTrieReturn,
+): VerifyTransactionProofReturn {
+  const value = verifyTrieProof(proof, 'transaction')
+  const bytes = hexToBytes(value)
+
+  // Legacy transactions are a bare RLP list, typed ones start with their type
+  const type = bytes[0] >= 0xc0 ? TransactionType.Legacy : bytes[0]
+  const fields = RLP.decode(
+    type === TransactionType.Legacy ? bytes : bytes.subarray(1),
+  ) as Uint8Array[]
+
+  const toFieldIndex: Record<number, number> = {
+    [TransactionType.Legacy]: 3,
+    [TransactionType.AccessListEIP2930]: 4,
+    [TransactionType.FeeMarketEIP1559]: 5,
+    [TransactionType.BlobEIP4844]: 5,
+    [TransactionType.EOACodeEIP7702]: 5,
+    [DEPOSIT_TX_TYPE]: 2,
+  }
+  if (!(type in toFieldIndex)) {
+    throw new Error(`Proven transaction has unsupported type ${type}`)
+  }
+  const to = fields[toFieldIndex[type]]
+
+  return {
+    value,
+    type,
+    to: to.length === 0 ? null : getAddress(bytesToHex(to)),
+  }
+}
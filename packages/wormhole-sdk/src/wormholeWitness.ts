@@ -0,0 +1,305 @@
+import {
+  Address,
+  Chain,
+  Client,
+  encodePacked,
+  Hex,
+  hexToBigInt,
+  isAddressEqual,
+  numberToHex,
+  sha256,
+  Transport,
+  zeroAddress,
+} from 'viem'
+import { buildBlockHeaderProof, RawRpcBlockHeader } from './blockHeaderProof'
+import { getBlockReceiptsRaw } from './blockReceipts'
+import { deriveBurnAddress } from './burnAddress'
+import { WormholeNote } from './note'
+import { deriveNullifier, SNARK_SCALAR_FIELD } from './nullifier'
+import { decodeReceipt, findTransferLogs } from './receiptDecoder'
+import { buildReceiptLogProof, ReceiptLogWitness } from './receiptLogWitness'
+import {
+  formatReceiptProofWitness,
+  ReceiptProofWitness,
+  ReceiptProofWitnessBounds,
+} from './receiptProofWitness'
+import { RawRpcReceipt } from './receiptTrieProof'
+
+/**
+ * Public inputs of the wormhole circuit, in the order `privateMint` takes
+ * them as `_pubSignals`
+ */
+export type WormholePublicSignals = {
+  // binds the proof to the source chain and block, see deriveReceiptFact
+  receiptFact: bigint
+  token: bigint
+  withdrawAmount: bigint
+  // commitment to the amount left after a partial withdraw, 0 when minting
+  // the whole burn
+  changeCommitment: bigint
+  nullifier: bigint
+  // receives withdrawAmount - relayerFee, so that the proof cannot be
+  // front-run to another address
+  recipient: bigint
+  // paid to the relayer, 0 when the recipient submits the mint
+  relayerFee: bigint
+  // the only address that can submit the mint, so that the fee cannot be
+  // front-run; 0 lets anyone submit a mint without fee
+  relayer: bigint
+}
+
+/**
+ * Everything the wormhole circuit needs to prove one burn
+ */
+export type WormholeWitness = {
+  note: WormholeNote
+  blockHash: Hex
+  headerRlp: Hex
+  // byte offset of the 32 receiptsRoot bytes inside headerRlp
+  receiptsRootOffset: number
+  receipt: ReceiptProofWitness
+  // offsets are relative to the receipt, add receipt.leafValueOffset
+  log: ReceiptLogWitness
+  nullifier: Hex
+  publicSignals: WormholePublicSignals
+}
+
+/**
+ * Public signals as `privateMint` takes them, see `toPublicSignalsArray`
+ */
+export type WormholePublicSignalsArray = readonly [
+  bigint,
+  bigint,
+  bigint,
+  bigint,
+  bigint,
+  bigint,
+  bigint,
+  bigint,
+]
+
+/**
+ * Arguments for building the witness of a burn
+ */
+type BuildWormholeWitnessArgs = {
+  note: WormholeNote
+  // the block of the burn, as returned by eth_getBlockByNumber
+  block: RawRpcBlockHeader
+  receipts: RawRpcReceipt[]
+  recipient: Address
+  relayerFee?: bigint
+  // required with a relayer fee
+  relayer?: Address
+  bounds?: Partial<ReceiptProofWitnessBounds>
+}
+
+/**
+ * Arguments for fetching the witness of a burn from the source chain
+ */
+type FetchWormholeWitnessArgs = {
+  client: Client<Transport, Chain | undefined>
+  note: WormholeNote
+  recipient: Address
+  relayerFee?: bigint
+  relayer?: Address
+  bounds?: Partial<ReceiptProofWitnessBounds>
+}
+
+/**
+ * Arguments for deriving the receipt fact of a block
+ */
+type DeriveReceiptFactArgs = {
+  chainId: number
+  blockHash: Hex
+}
+
+/**
+ * Derive the field element the destination chain checks against the block
+ * hashes it knows of the source chain
+ * @param param0 - The source chain id and block hash
+ * @returns sha256(chainId || blockHash) reduced into the BN254 scalar field
+ */
+export function deriveReceiptFact({
+  chainId,
+  blockHash,
+}: DeriveReceiptFactArgs): bigint {
+  const hash = sha256(
+    encodePacked(['uint256', 'bytes32'], [BigInt(chainId), blockHash]),
+  )
+  return hexToBigInt(hash) % SNARK_SCALAR_FIELD
+}
+
+/**
+ * Order the public signals as the verifier contract takes them
+ * @param signals - The public signals
+ * @returns [receiptFact, token, withdrawAmount, changeCommitment, nullifier,
+ * recipient, relayerFee, relayer]
+ */
+export function toPublicSignalsArray({
+  receiptFact,
+  token,
+  withdrawAmount,
+  changeCommitment,
+  nullifier,
+  recipient,
+  relayerFee,
+  relayer,
+}: WormholePublicSignals): WormholePublicSignalsArray {
+  return [
+    receiptFact,
+    token,
+    withdrawAmount,
+    changeCommitment,
+    nullifier,
+    recipient,
+    relayerFee,
+    relayer,
+  ]
+}
+
+/**
+ * Build the witness of the burn a note points at, checking on the way that
+ * the note matches the block: the receipt succeeded and its log is a
+ * Transfer of the note amount to the burn address of the note secret.
+ * @param param0 - The note, its block, all the block receipts, who the mint
+ * pays and the relayer that submits it
+ * @returns The circuit witness with its public signals
+ */
+export async function buildWormholeWitness({
+  note,
+  block,
+  receipts,
+  recipient,
+  relayerFee = 0n,
+  relayer = zeroAddress,
+  bounds,
+}: BuildWormholeWitnessArgs): Promise<WormholeWitness> {
+  if (relayerFee < 0n || relayerFee > note.amount) {
+    throw new Error(
+      `Relayer fee ${relayerFee} is not between 0 and the note amount ${note.amount}`,
+    )
+  }
+  if (relayerFee > 0n && isAddressEqual(relayer, zeroAddress)) {
+    throw new Error(`Relayer fee ${relayerFee} has no relayer to pay`)
+  }
+  if (BigInt(block.number) !== note.blockNumber) {
+    throw new Error(
+      `Block ${BigInt(block.number)} is not the block of the note (${note.blockNumber})`,
+    )
+  }
+
+  const header = buildBlockHeaderProof(block)
+  const proof = await buildReceiptLogProof({
+    receipts,
+    targetTxIndex: numberToHex(note.transactionIndex),
+    log: { logIndex: note.logIndex },
+  })
+  if (proof.rootHash !== header.receiptsRoot) {
+    throw new Error(
+      `Receipts do not match the receiptsRoot of block ${note.blockNumber}`,
+    )
+  }
+
+  const receipt = decodeReceipt(proof.value)
+  if (receipt.status !== 'success') {
+    throw new Error('The burn transaction of the note reverted')
+  }
+  const transfer = findTransferLogs(receipt, {
+    token: note.token,
+    to: deriveBurnAddress(note.secret),
+  }).find(({ log }) => log.index === note.logIndex)
+  if (!transfer) {
+    throw new Error(
+      `Log ${note.logIndex} of the burn receipt is not a Transfer of ${note.token} to the burn address of the note`,
+    )
+  }
+  if (transfer.args.amount !== note.amount) {
+    throw new Error(
+      `The burn transferred ${transfer.args.amount}, the note claims ${note.amount}`,
+    )
+  }
+
+  const nullifier = deriveNullifier({
+    secret: note.secret,
+    chainId: note.sourceChainId,
+    blockNumber: note.blockNumber,
+    transactionIndex: note.transactionIndex,
+    logIndex: note.logIndex,
+  })
+
+  return {
+    note,
+    blockHash: header.blockHash,
+    headerRlp: header.headerRlp,
+    receiptsRootOffset: header.receiptsRootOffset,
+    receipt: formatReceiptProofWitness({ ...proof, bounds }),
+    log: proof.log,
+    nullifier,
+    publicSignals: {
+      receiptFact: deriveReceiptFact({
+        chainId: note.sourceChainId,
+        blockHash: header.blockHash,
+      }),
+      token: hexToBigInt(note.token),
+      withdrawAmount: note.amount,
+      changeCommitment: 0n,
+      nullifier: hexToBigInt(nullifier),
+      recipient: hexToBigInt(recipient),
+      relayerFee,
+      relayer: hexToBigInt(relayer),
+    },
+  }
+}
+
+/**
+ * Return type for fetching the block of a burn, the inputs of
+ * `buildWormholeWitness`
+ */
+export type WormholeBlockData = {
+  block: RawRpcBlockHeader
+  receipts: RawRpcReceipt[]
+}
+
+/**
+ * Fetch the header and all the receipts of the block a note points at
+ * @param param0 - A client of the source chain and the note
+ * @returns The raw block header and receipts
+ */
+export async function fetchWormholeBlockData({
+  client,
+  note,
+}: Pick<
+  FetchWormholeWitnessArgs,
+  'client' | 'note'
+>): Promise<WormholeBlockData> {
+  // Raw header as returned by the node, so that every fork field is kept
+  const block = await client.request<{
+    Parameters: [Hex, boolean]
+    ReturnType: RawRpcBlockHeader | null
+  }>({
+    method: 'eth_getBlockByNumber',
+    params: [numberToHex(note.blockNumber), false],
+  })
+  if (!block) {
+    throw new Error(`Block ${note.blockNumber} of the note not found`)
+  }
+
+  const receipts = await getBlockReceiptsRaw(client, note.blockNumber)
+  return { block, receipts }
+}
+
+/**
+ * Fetch the block and receipts of the burn a note points at and build its
+ * witness
+ * @param param0 - A client of the source chain, the note, and who the mint
+ * pays
+ * @returns The circuit witness with its public signals
+ */
+export async function fetchWormholeWitness({
+  client,
+  note,
+  ...args
+}: FetchWormholeWitnessArgs): Promise<WormholeWitness> {
+  const { block, receipts } = await fetchWormholeBlockData({ client, note })
+  return buildWormholeWitness({ note, block, receipts, ...args })
+}
@@ -0,0 +1,29 @@
+import { builtinModules } from 'node:module'
+import { defineConfig } from 'vite'
+import pkg from './package.json'
+
+const external = [
+  ...Object.keys(pkg.dependencies),
+  ...builtinModules.map((name) => `node:${name}`),
+]
+
+export default defineConfig({
+  build: {
+    lib: {
+      entry: {
+        index: 'src/index.ts',
+        chains: 'src/chains.ts',
+        node: 'src/node.ts',
+      },
+      formats: ['es'],
+    },
+    // Dependencies are resolved by the consumer's bundler or Node, so the
+    // same output works in the browser and in scripts
+    rollupOptions: {
+      external: (id) =>
+        external.some((name) => id === name || id.startsWith(`${name}/`)),
+    },
+    target: 'es2020',
+    sourcemap: true,
+  },
+})